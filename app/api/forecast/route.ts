@@ -0,0 +1,217 @@
+import {
+  indicatorSeries,
+  INDICATORS,
+  MEAN_INDICATOR,
+} from "@/lib/dataset/indicators";
+import {
+  forecastModels,
+  generatePredictionLine,
+  PREDICTION_LEVELS,
+  realisticRange,
+  type TemperatureData,
+} from "@/lib/forecast";
+import {
+  parseForecastRequest,
+  type ForecastRequest,
+} from "@/lib/forecast/request";
+import { withSampleExtremes } from "@/utils/extremes-temp-data";
+import { sampleTemperatureData } from "@/utils/regional-temp-data";
+import { createClient } from "@/utils/supabase/server";
+import { fetchTemperatureTrends } from "@/utils/supabase/temperature-trends";
+import { NextResponse } from "next/server";
+
+// Forecasts depend on the live table, so never cache responses
+export const dynamic = "force-dynamic";
+
+type ErrorCode =
+  | "invalid_json"
+  | "invalid_request"
+  | "model_error"
+  | "internal_error";
+
+function errorResponse(
+  status: number,
+  code: ErrorCode,
+  message: string,
+  field?: string
+) {
+  return NextResponse.json(
+    { error: { code, message, ...(field !== undefined && { field }) } },
+    { status }
+  );
+}
+
+/**
+ * Loads the temperature series for a region (null for national) from
+ * Supabase, falling back to the built-in sample data when the query fails or
+ * returns nothing
+ */
+async function loadSeries(region: string | null): Promise<{
+  series: TemperatureData[];
+  source: "database" | "sample";
+}> {
+  try {
+    const supabase = await createClient();
+    const { data, error } = await fetchTemperatureTrends(supabase, region);
+
+    if (error) {
+      console.error("Error fetching data:", error);
+    } else if (data && data.length > 0) {
+      return { series: data, source: "database" };
+    }
+  } catch (error) {
+    console.error("Error connecting to database:", error);
+  }
+  return { series: sampleTemperatureData(region), source: "sample" };
+}
+
+/**
+ * Fits the requested model and forecasts every target year
+ */
+async function forecast({
+  model: type,
+  region,
+  indicator: indicatorKey,
+  targetYears,
+  options: requestOptions,
+}: ForecastRequest) {
+  const loaded = await loadSeries(region);
+  const source = loaded.source;
+  const indicator =
+    INDICATORS.find((i) => i.key === indicatorKey) ?? MEAN_INDICATOR;
+  // Extremes missing from the table are filled with sample values
+  const series = indicatorSeries(withSampleExtremes(loaded.series), indicator);
+  const options = { ...requestOptions, bounds: indicator.bounds };
+
+  let model;
+  try {
+    model = forecastModels[type].fit(series, options);
+  } catch (error) {
+    return errorResponse(
+      422,
+      "model_error",
+      error instanceof Error ? error.message : "Model could not be fitted"
+    );
+  }
+
+  const interval = model.interval;
+  const forecasts = targetYears.map((year) => {
+    const prediction = model.predict(year);
+    const allowed = realisticRange(
+      series,
+      year,
+      options.referenceYear,
+      options.bounds
+    );
+    return {
+      year,
+      prediction,
+      ...(model.predictRaw && { rawPrediction: model.predictRaw(year) }),
+      intervals: interval
+        ? PREDICTION_LEVELS.map((level) => interval(year, level))
+        : [],
+      realistic: prediction >= allowed.min && prediction <= allowed.max,
+    };
+  });
+
+  if (forecasts.some(({ prediction }) => !isFinite(prediction))) {
+    return errorResponse(
+      422,
+      "model_error",
+      `${forecastModels[type].label} produced no prediction for the requested years`
+    );
+  }
+
+  const lastYear = targetYears[targetYears.length - 1];
+  return NextResponse.json({
+    model: {
+      type,
+      label: forecastModels[type].label,
+      equation: model.equation,
+      description: model.description ?? null,
+      coefficients: model.coefficients,
+      baseYear: model.baseYear,
+      stats: model.stats,
+    },
+    data: {
+      region,
+      indicator: indicator.key,
+      unit: indicator.unit.trim(),
+      source,
+      firstYear: parseInt(series[0].year),
+      lastYear: parseInt(series[series.length - 1].year),
+      count: series.length,
+    },
+    forecasts,
+    path: generatePredictionLine(series, model, lastYear),
+  });
+}
+
+async function handle(input: unknown) {
+  const parsed = parseForecastRequest(input);
+  if (!parsed.ok) {
+    return errorResponse(
+      400,
+      "invalid_request",
+      parsed.error.message,
+      parsed.error.field
+    );
+  }
+
+  try {
+    return await forecast(parsed.value);
+  } catch (error) {
+    console.error("Forecast failed:", error);
+    return errorResponse(500, "internal_error", "Forecast failed");
+  }
+}
+
+/**
+ * GET /api/forecast?model=linear&year=2050&year=2100&region=NCR&indicator=tmax&options={...}
+ * The year parameter may be repeated; options is JSON-encoded.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+
+  let options: unknown;
+  const rawOptions = params.get("options");
+  if (rawOptions !== null) {
+    try {
+      options = JSON.parse(rawOptions);
+    } catch {
+      return errorResponse(
+        400,
+        "invalid_json",
+        "options must be JSON-encoded",
+        "options"
+      );
+    }
+  }
+
+  return handle({
+    model: params.get("model") ?? undefined,
+    region: params.get("region") ?? undefined,
+    indicator: params.get("indicator") ?? undefined,
+    // Non-numeric years become NaN and are rejected by the parser
+    targetYears: params.getAll("year").map(Number),
+    options,
+  });
+}
+
+/**
+ * POST /api/forecast with a JSON body of
+ * { model, targetYear | targetYears, region, indicator, options }
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      400,
+      "invalid_json",
+      "Request body must be valid JSON"
+    );
+  }
+  return handle(body);
+}
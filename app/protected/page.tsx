@@ -16,7 +16,7 @@ export default async function ProtectedPage() {
   return (
     <div className="flex-1 w-full flex flex-col gap-8 px-4">
       <h1 className="text-2xl font-medium text-center">Temperature Trend Analysis</h1>
-      <SimulationWrapper />
+      <SimulationWrapper savedScenarios />
     </div>
   );
 }
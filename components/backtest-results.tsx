@@ -0,0 +1,82 @@
+"use client";
+
+import { forecastModels, type BacktestResult } from "@/lib/forecast";
+
+/**
+ * Table of hold-out error metrics for each model, best RMSE highlighted
+ */
+export default function BacktestResults({
+  results,
+  onClose,
+  unit = "°C",
+}: {
+  results: BacktestResult[];
+  onClose: () => void;
+  // Appended to errors, e.g. " days" for a count of days
+  unit?: string;
+}) {
+  const bestRmse = Math.min(...results.map((r) => r.rmse));
+  const { holdoutYears, trainingEndYear } = results[0];
+
+  return (
+    <div className="bg-muted rounded-md overflow-hidden">
+      <div className="p-4 bg-muted/50 border-b flex items-center justify-between">
+        <h3 className="text-lg font-medium">Backtest Results</h3>
+        <button
+          className="text-sm text-muted-foreground hover:text-foreground"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+      <div className="p-4 space-y-3">
+        <p className="text-sm">
+          Trained up to {trainingEndYear}, forecasting the {holdoutYears} hidden{" "}
+          {holdoutYears === 1 ? "year" : "years"} after it. Errors are against
+          the 5-year smooth.
+        </p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-1 font-medium">Model</th>
+              <th className="py-1 font-medium text-right">MAE</th>
+              <th className="py-1 font-medium text-right">RMSE</th>
+              <th className="py-1 font-medium text-right">Bias</th>
+              <th className="py-1 font-medium text-right">MAPE</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((r) => (
+              <tr
+                key={r.type}
+                className={r.rmse === bestRmse ? "font-semibold" : undefined}
+              >
+                <td className="py-1">{forecastModels[r.type].label}</td>
+                <td className="py-1 text-right">
+                  {r.mae.toFixed(3)}
+                  {unit}
+                </td>
+                <td className="py-1 text-right">
+                  {r.rmse.toFixed(3)}
+                  {unit}
+                </td>
+                <td className="py-1 text-right">
+                  {r.bias > 0 ? "+" : ""}
+                  {r.bias.toFixed(3)}
+                  {unit}
+                </td>
+                <td className="py-1 text-right">
+                  {r.mape === null ? "—" : `${r.mape.toFixed(2)}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-muted-foreground">
+          Bold marks the lowest RMSE. Positive bias means the model predicted
+          warmer than observed. MAPE is left out when an observed value is zero.
+        </p>
+      </div>
+    </div>
+  );
+}
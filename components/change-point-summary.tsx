@@ -0,0 +1,57 @@
+"use client";
+
+import {
+  CHANGE_POINT_ALPHA,
+  formatAnomaly,
+  type ChangePointAnalysis,
+} from "@/lib/forecast";
+
+/**
+ * Detected change points and the rate of change of each trend segment
+ * between them
+ */
+export default function ChangePointSummary({
+  analysis,
+  unit = "°C",
+}: {
+  analysis: ChangePointAnalysis;
+  // Appended to rates, e.g. " days" for a count of days
+  unit?: string;
+}) {
+  const { changePoints, segments } = analysis;
+
+  return (
+    <div className="bg-background p-4 rounded-lg border space-y-3 text-sm">
+      <h3 className="font-medium">Change Points</h3>
+      <p className="text-xs text-muted-foreground">
+        {changePoints.length === 0
+          ? `No change in trend is significant at the ${(CHANGE_POINT_ALPHA * 100).toFixed(0)}% level.`
+          : `Piecewise linear fit to the annual values; each change point is significant at the ${(CHANGE_POINT_ALPHA * 100).toFixed(0)}% level.`}
+      </p>
+      <table className="w-full">
+        <thead>
+          <tr className="text-left border-b">
+            <th className="py-1 font-medium">Years</th>
+            <th className="py-1 font-medium text-right">Rate per decade</th>
+            <th className="py-1 font-medium text-right">Change point p</th>
+          </tr>
+        </thead>
+        <tbody>
+          {segments.map((segment, i) => (
+            <tr key={segment.startYear} className="border-b last:border-0">
+              <td className="py-1">
+                {segment.startYear}–{segment.endYear}
+              </td>
+              <td className="py-1 text-right">
+                {formatAnomaly(segment.ratePerDecade, 2, unit)}
+              </td>
+              <td className="py-1 text-right">
+                {i === 0 ? "—" : changePoints[i - 1].pValue.toFixed(3)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
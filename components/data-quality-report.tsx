@@ -0,0 +1,84 @@
+"use client";
+
+import {
+  FLAGGED_POINT_HANDLING,
+  type FlaggedPointHandling,
+  type QualityReport,
+} from "@/lib/dataset";
+
+/**
+ * Collapsible report of the checks run on the built-in series, with the
+ * choice of what the models do with flagged years
+ */
+export default function DataQualityReport({
+  report,
+  handling,
+  onHandlingChange,
+}: {
+  report: QualityReport;
+  handling: FlaggedPointHandling;
+  onHandlingChange: (handling: FlaggedPointHandling) => void;
+}) {
+  const { issues, flagged } = report;
+
+  return (
+    <details className="border rounded-md p-3 text-sm">
+      <summary className="cursor-pointer font-medium">
+        Data quality
+        {issues.length === 0
+          ? ": no issues"
+          : ` (${issues.length} issue${issues.length === 1 ? "" : "s"})`}
+      </summary>
+      <div className="mt-3 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          {report.rows} rows checked for missing and duplicate years,
+          non-numeric values, outliers, year types and 5-year smooths that
+          disagree with the annual means.
+        </p>
+
+        {issues.length > 0 && (
+          <ul className="space-y-1 text-xs">
+            {issues.map((issue, index) => (
+              <li
+                key={index}
+                className={
+                  issue.severity === "error"
+                    ? "text-destructive"
+                    : "text-muted-foreground"
+                }
+              >
+                {issue.severity === "error" ? "Error: " : "Warning: "}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {flagged.length > 0 && (
+          <div>
+            <label
+              htmlFor="flaggedHandling"
+              className="block text-xs font-medium mb-1"
+            >
+              Flagged years ({flagged.length})
+            </label>
+            <select
+              id="flaggedHandling"
+              value={handling}
+              onChange={(e) =>
+                onHandlingChange(e.target.value as FlaggedPointHandling)
+              }
+              className="w-full p-1.5 bg-background text-foreground border border-input rounded-md"
+            >
+              {FLAGGED_POINT_HANDLING.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
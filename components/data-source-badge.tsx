@@ -0,0 +1,68 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import type { DatasetSource } from "@/lib/scenarios";
+
+/**
+ * Age of a timestamp in the largest whole unit, e.g. "3 days"
+ */
+function formatAge(savedAt: number) {
+  const minutes = Math.floor((Date.now() - savedAt) / 60000);
+  const units: [string, number][] = [
+    ["day", 60 * 24],
+    ["hour", 60],
+    ["minute", 1],
+  ];
+  for (const [unit, size] of units) {
+    const count = Math.floor(minutes / size);
+    if (count >= 1) return `${count} ${unit}${count === 1 ? "" : "s"}`;
+  }
+  return "less than a minute";
+}
+
+/**
+ * Shows where the plotted series comes from: live from Supabase, a cached
+ * copy of an earlier fetch and its age, the built-in sample or an upload
+ */
+export default function DataSourceBadge({
+  source,
+  cachedAt,
+}: {
+  source: DatasetSource;
+  // When the cached copy was fetched; null when the data is live
+  cachedAt: number | null;
+}) {
+  if (source === "upload") {
+    return <Badge variant="outline">Uploaded data</Badge>;
+  }
+  if (source === "sample") {
+    return (
+      <Badge
+        variant="outline"
+        className="border-amber-500 text-amber-700 dark:text-amber-400"
+        title="The database could not be reached and nothing is cached"
+      >
+        Sample data
+      </Badge>
+    );
+  }
+  if (cachedAt !== null) {
+    return (
+      <Badge
+        variant="outline"
+        className="border-sky-500 text-sky-700 dark:text-sky-400"
+        title={`Fetched ${new Date(cachedAt).toLocaleString()}`}
+      >
+        Cached data · {formatAge(cachedAt)} old
+      </Badge>
+    );
+  }
+  return (
+    <Badge
+      variant="outline"
+      className="border-emerald-500 text-emerald-700 dark:text-emerald-400"
+    >
+      Live data
+    </Badge>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import {
+  guessColumnMapping,
+  importSeries,
+  readTableFile,
+  type ColumnMapping,
+  type TemperatureUnit,
+} from "@/lib/dataset";
+import type { TemperatureData } from "@/lib/forecast";
+import { useState } from "react";
+
+export type UploadedDataset = {
+  name: string;
+  series: TemperatureData[];
+};
+
+/**
+ * Select for the column holding one field of the uploaded file
+ */
+function ColumnSelect({
+  id,
+  label,
+  headers,
+  value,
+  onChange,
+  emptyLabel,
+}: {
+  id: string;
+  label: string;
+  headers: string[];
+  value: number | null;
+  onChange: (value: number | null) => void;
+  // Offered as a choice when the field is optional
+  emptyLabel?: string;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-xs font-medium mb-1">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value ?? -1}
+        onChange={(e) => {
+          const index = parseInt(e.target.value);
+          onChange(index < 0 ? null : index);
+        }}
+        className="w-full p-1.5 bg-background text-foreground border border-input rounded-md"
+      >
+        {emptyLabel && <option value={-1}>{emptyLabel}</option>}
+        {headers.map((header, index) => (
+          <option key={index} value={index}>
+            {header || `Column ${index + 1}`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * Reads a CSV or TSV file, lets the user map its columns and shows any
+ * validation problems before the series is used
+ */
+export default function DatasetUpload({
+  onLoad,
+}: {
+  onLoad: (dataset: UploadedDataset) => void;
+}) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [unit, setUnit] = useState<TemperatureUnit | "auto">("auto");
+  const [readError, setReadError] = useState<string | null>(null);
+
+  async function handleFile(file: File | undefined) {
+    setRows(null);
+    setMapping(null);
+    setReadError(null);
+    if (!file) return;
+
+    setFileName(file.name);
+    // Workbooks are not parsed; the spreadsheet reader has known
+    // vulnerabilities with untrusted files
+    if (/\.xlsx?$/i.test(file.name)) {
+      setReadError("Excel workbooks are not supported. Save the sheet as CSV.");
+      return;
+    }
+    try {
+      const cells = await readTableFile(file);
+      if (cells.length < 2) {
+        setReadError("The file needs a header row and at least one data row.");
+        return;
+      }
+      setRows(cells);
+      setMapping(guessColumnMapping(cells[0]));
+    } catch (error) {
+      console.error("Error reading upload:", error);
+      setReadError("The file could not be read as CSV or TSV.");
+    }
+  }
+
+  const result = rows && mapping ? importSeries(rows, mapping, unit) : null;
+  const hasErrors = result?.issues.some((i) => i.severity === "error");
+  const headers = rows?.[0] ?? [];
+
+  return (
+    <details className="border rounded-md p-3 text-sm">
+      <summary className="cursor-pointer font-medium">Upload dataset</summary>
+      <div className="mt-3 space-y-3">
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="w-full text-xs"
+        />
+        <p className="text-xs text-muted-foreground">
+          CSV or TSV with one row per year: a year column, an annual mean
+          temperature column and optionally a 5-year smooth.
+        </p>
+
+        {readError && <p className="text-xs text-destructive">{readError}</p>}
+
+        {mapping && result && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <ColumnSelect
+                id="uploadYearColumn"
+                label="Year"
+                headers={headers}
+                value={mapping.year}
+                onChange={(year) =>
+                  setMapping({ ...mapping, year: year ?? mapping.year })
+                }
+              />
+              <ColumnSelect
+                id="uploadMeanColumn"
+                label="Annual Mean"
+                headers={headers}
+                value={mapping.annualMean}
+                onChange={(annualMean) =>
+                  setMapping({
+                    ...mapping,
+                    annualMean: annualMean ?? mapping.annualMean,
+                  })
+                }
+              />
+              <ColumnSelect
+                id="uploadSmoothColumn"
+                label="5-Year Smooth"
+                headers={headers}
+                value={mapping.fiveYearSmooth}
+                emptyLabel="Compute from annual means"
+                onChange={(fiveYearSmooth) =>
+                  setMapping({ ...mapping, fiveYearSmooth })
+                }
+              />
+              <div>
+                <label
+                  htmlFor="uploadUnit"
+                  className="block text-xs font-medium mb-1"
+                >
+                  Unit
+                </label>
+                <select
+                  id="uploadUnit"
+                  value={unit}
+                  onChange={(e) =>
+                    setUnit(e.target.value as TemperatureUnit | "auto")
+                  }
+                  className="w-full p-1.5 bg-background text-foreground border border-input rounded-md"
+                >
+                  <option value="auto">Detect</option>
+                  <option value="C">°C</option>
+                  <option value="F">°F</option>
+                </select>
+              </div>
+            </div>
+
+            {result.series.length > 0 && (
+              <p className="text-xs">
+                {result.series.length} years, {result.series[0].year}–
+                {result.series[result.series.length - 1].year}
+                {result.unit === "F" && ", converted from °F"}
+                {result.smoothComputed && "; 5-year smooth computed"}
+              </p>
+            )}
+
+            {result.issues.length > 0 && (
+              <ul className="space-y-1 text-xs">
+                {result.issues.map((issue, index) => (
+                  <li
+                    key={index}
+                    className={
+                      issue.severity === "error"
+                        ? "text-destructive"
+                        : "text-muted-foreground"
+                    }
+                  >
+                    {issue.severity === "error" ? "Error: " : "Warning: "}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <button
+              className="w-full border border-input py-2 px-4 rounded-md hover:bg-muted transition disabled:opacity-50"
+              disabled={hasErrors}
+              onClick={() =>
+                onLoad({
+                  name: (fileName ?? "Uploaded data").replace(/\.[^.]+$/, ""),
+                  series: result.series,
+                })
+              }
+            >
+              Use this dataset
+            </button>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
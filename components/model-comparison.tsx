@@ -0,0 +1,89 @@
+"use client";
+
+import {
+  forecastModels,
+  formatAnomaly,
+  type ClimateBaseline,
+  type ForecastRun,
+} from "@/lib/forecast";
+
+/**
+ * Side-by-side table of each compared model's forecast for the target year,
+ * with its anomaly relative to the baseline
+ */
+export default function ModelComparison({
+  runs,
+  baseline,
+  unit = "°C",
+}: {
+  runs: ForecastRun[];
+  baseline: ClimateBaseline;
+  // Appended to values, e.g. " days" for a count of days
+  unit?: string;
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm">Year: {runs[0].targetYear}</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left border-b">
+            <th className="py-1 font-medium">Model</th>
+            <th className="py-1 font-medium text-right">Prediction</th>
+            <th
+              className="py-1 font-medium text-right"
+              title={`Relative to ${baseline.label}`}
+            >
+              Anomaly
+            </th>
+            <th className="py-1 font-medium text-right">R²</th>
+            <th className="py-1 font-medium text-right">Adj. R²</th>
+            <th className="py-1 font-medium text-right">95% PI Width</th>
+          </tr>
+        </thead>
+        <tbody>
+          {runs.map((run) => {
+            const interval95 = run.intervals.find((i) => i.level === 0.95);
+            const { anomaly } = run.projection[run.projection.length - 1];
+            return (
+              <tr key={run.type}>
+                <td className="py-1">{forecastModels[run.type].label}</td>
+                <td className="py-1 text-right">
+                  {run.prediction.toFixed(2)}
+                  {unit}
+                  {!run.realistic && (
+                    <span
+                      className="text-destructive"
+                      title="Outside the realistic range"
+                    >
+                      {" "}
+                      *
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 text-right">
+                  {anomaly === null ? "—" : formatAnomaly(anomaly, 2, unit)}
+                </td>
+                <td className="py-1 text-right">
+                  {run.model.stats.r2.toFixed(3)}
+                </td>
+                <td className="py-1 text-right">
+                  {run.model.stats.adjustedR2.toFixed(3)}
+                </td>
+                <td className="py-1 text-right">
+                  {interval95
+                    ? `${(interval95.upper - interval95.lower).toFixed(2)}${unit}`
+                    : "—"}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {runs.some((run) => !run.realistic) && (
+        <p className="text-xs text-destructive">
+          * Prediction falls outside realistic range.
+        </p>
+      )}
+    </div>
+  );
+}
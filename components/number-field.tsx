@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Number input that keeps the text being typed and only reports values
+ * that parse and fall within range
+ */
+export function NumberField({
+  id,
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  step,
+  disabled,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  disabled?: boolean;
+}) {
+  const [text, setText] = useState(String(value));
+
+  // Follow value changes made outside this field
+  useEffect(() => {
+    if (Number(text) !== value) setText(String(value));
+  }, [value]);
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-xs font-medium mb-1">
+        {label}
+      </label>
+      <input
+        id={id}
+        type="number"
+        className="w-full p-1.5 text-sm border rounded-md bg-background disabled:opacity-50"
+        value={text}
+        min={min}
+        max={max}
+        step={step}
+        disabled={disabled}
+        onChange={(e) => {
+          setText(e.target.value);
+          const parsed = parseFloat(e.target.value);
+          if (
+            !isNaN(parsed) &&
+            (min === undefined || parsed >= min) &&
+            (max === undefined || parsed <= max)
+          ) {
+            onChange(parsed);
+          }
+        }}
+      />
+    </div>
+  );
+}
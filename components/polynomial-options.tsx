@@ -0,0 +1,169 @@
+"use client";
+
+import { NumberField } from "@/components/number-field";
+import {
+  DEFAULT_DAMPENING,
+  DEFAULT_TRAINING_WINDOW,
+  type DampeningOptions,
+  type PolynomialOptions,
+} from "@/lib/forecast";
+
+export type PolynomialSettings = Required<PolynomialOptions>;
+
+/**
+ * Advanced settings for the polynomial model: order, training window and
+ * the dampening curve applied to long-range forecasts
+ */
+export default function PolynomialOptionsPanel({
+  value,
+  onChange,
+}: {
+  value: PolynomialSettings;
+  onChange: (value: PolynomialSettings) => void;
+}) {
+  const { order, trainingWindow, dampening } = value;
+
+  function updateDampening(changes: Partial<DampeningOptions>) {
+    if (!dampening) return;
+    onChange({ ...value, dampening: { ...dampening, ...changes } });
+  }
+
+  return (
+    <details className="border rounded-md p-3 text-sm">
+      <summary className="cursor-pointer font-medium">Advanced options</summary>
+      <div className="mt-3 space-y-4">
+        <div>
+          <label
+            htmlFor="polynomialOrder"
+            className="block text-xs font-medium mb-1"
+          >
+            Polynomial Order
+          </label>
+          <select
+            id="polynomialOrder"
+            value={order}
+            onChange={(e) =>
+              onChange({ ...value, order: parseInt(e.target.value) })
+            }
+            className="w-full p-1.5 bg-background text-foreground border border-input rounded-md"
+          >
+            <option value={1}>1 (linear)</option>
+            <option value={2}>2 (quadratic)</option>
+            <option value={3}>3 (cubic)</option>
+            <option value={4}>4 (quartic)</option>
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <div>
+            <label
+              htmlFor="trainingWindowMode"
+              className="block text-xs font-medium mb-1"
+            >
+              Train On
+            </label>
+            <select
+              id="trainingWindowMode"
+              value={
+                typeof trainingWindow === "number"
+                  ? "recent"
+                  : (trainingWindow ?? "all")
+              }
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  trainingWindow:
+                    e.target.value === "recent"
+                      ? DEFAULT_TRAINING_WINDOW
+                      : e.target.value === "change-point"
+                        ? "change-point"
+                        : null,
+                })
+              }
+              className="w-full p-1.5 bg-background text-foreground border border-input rounded-md"
+            >
+              <option value="recent">Most recent years</option>
+              <option value="all">All years</option>
+              <option value="change-point">
+                Years since last change point
+              </option>
+            </select>
+          </div>
+          <NumberField
+            id="trainingWindow"
+            label="Training Window (most recent years)"
+            value={
+              typeof trainingWindow === "number"
+                ? trainingWindow
+                : DEFAULT_TRAINING_WINDOW
+            }
+            min={order + 2}
+            step={1}
+            disabled={typeof trainingWindow !== "number"}
+            onChange={(years) =>
+              onChange({ ...value, trainingWindow: Math.round(years) })
+            }
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-xs font-medium">
+            <input
+              type="checkbox"
+              checked={dampening !== false}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  dampening: e.target.checked ? DEFAULT_DAMPENING : false,
+                })
+              }
+            />
+            Dampen long-range forecasts
+          </label>
+          {dampening && (
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField
+                id="dampeningHorizon"
+                label="Horizon (years)"
+                value={dampening.horizon}
+                min={1}
+                step={1}
+                onChange={(horizon) => updateDampening({ horizon })}
+              />
+              <NumberField
+                id="dampeningExponent"
+                label="Exponent"
+                value={dampening.exponent}
+                min={0.1}
+                step={0.1}
+                onChange={(exponent) => updateDampening({ exponent })}
+              />
+              <NumberField
+                id="dampeningMinFactor"
+                label="Minimum Factor"
+                value={dampening.minFactor}
+                min={0}
+                max={1}
+                step={0.05}
+                onChange={(minFactor) => updateDampening({ minFactor })}
+              />
+              <NumberField
+                id="dampeningChangeScale"
+                label="Change Scale (°C)"
+                value={dampening.changeScale}
+                min={0.1}
+                step={0.5}
+                onChange={(changeScale) => updateDampening({ changeScale })}
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            The predicted change from the last known value is multiplied by
+            max(minimum, 1 − (years ahead ÷ horizon)^exponent), and reduced
+            further as the change approaches the change scale.
+          </p>
+        </div>
+      </div>
+    </details>
+  );
+}
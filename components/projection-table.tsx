@@ -0,0 +1,163 @@
+"use client";
+
+import {
+  formatAnomaly,
+  type ClimateBaseline,
+  type ProjectionRow,
+} from "@/lib/forecast";
+import { Fragment, useState } from "react";
+
+type SortKey = "year" | "prediction" | "anomaly" | "width";
+
+/**
+ * Width of the widest prediction interval, used to sort by uncertainty
+ */
+function intervalWidth(row: ProjectionRow) {
+  const widest = row.intervals[row.intervals.length - 1];
+  return widest ? widest.upper - widest.lower : null;
+}
+
+const sortValues: Record<SortKey, (row: ProjectionRow) => number | null> = {
+  year: (row) => row.year,
+  prediction: (row) => row.prediction,
+  anomaly: (row) => row.anomaly,
+  width: intervalWidth,
+};
+
+function SortableHeading({
+  label,
+  direction,
+  onClick,
+  className,
+}: {
+  label: string;
+  // Arrow shown when the table is sorted by this column
+  direction: string | null;
+  onClick: () => void;
+  className: string;
+}) {
+  return (
+    <th className={`py-1 font-medium ${className}`}>
+      <button className="hover:text-foreground" onClick={onClick}>
+        {label}
+        {direction && ` ${direction}`}
+      </button>
+    </th>
+  );
+}
+
+/**
+ * Year-by-year projection with prediction intervals and anomalies. Clicking
+ * a column heading sorts by it; clicking again reverses the order.
+ */
+export default function ProjectionTable({
+  rows,
+  baseline,
+  unit = "°C",
+}: {
+  rows: ProjectionRow[];
+  baseline: ClimateBaseline;
+  // Appended to values, e.g. " days" for a count of days
+  unit?: string;
+}) {
+  const [sortKey, setSortKey] = useState<SortKey>("year");
+  const [ascending, setAscending] = useState(true);
+
+  const sorted = [...rows].sort((a, b) => {
+    const x = sortValues[sortKey](a);
+    const y = sortValues[sortKey](b);
+    // Missing values always go last
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    return ascending ? x - y : y - x;
+  });
+
+  function sortBy(key: SortKey) {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  }
+
+  const levels = rows[0]?.intervals.map((i) => i.level) ?? [];
+
+  const heading = (
+    column: SortKey,
+    label: string,
+    className = "text-right"
+  ) => (
+    <SortableHeading
+      label={label}
+      direction={sortKey === column ? (ascending ? "▲" : "▼") : null}
+      onClick={() => sortBy(column)}
+      className={className}
+    />
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-80 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-muted">
+            <tr className="text-left border-b">
+              {heading("year", "Year", "text-left")}
+              {heading("prediction", "Prediction")}
+              {heading("anomaly", "Anomaly")}
+              {levels.map((level, index) =>
+                index === levels.length - 1 ? (
+                  <Fragment key={level}>
+                    {heading("width", `${(level * 100).toFixed(0)}% PI`)}
+                  </Fragment>
+                ) : (
+                  <th key={level} className="py-1 font-medium text-right">
+                    {(level * 100).toFixed(0)}% PI
+                  </th>
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((row) => (
+              <tr key={row.year}>
+                <td className="py-1">{row.year}</td>
+                <td className="py-1 text-right">
+                  {row.prediction.toFixed(2)}
+                  {unit}
+                  {!row.realistic && (
+                    <span
+                      className="text-destructive"
+                      title="Outside the realistic range"
+                    >
+                      {" "}
+                      *
+                    </span>
+                  )}
+                </td>
+                <td className="py-1 text-right">
+                  {row.anomaly === null
+                    ? "—"
+                    : formatAnomaly(row.anomaly, 2, unit)}
+                </td>
+                {row.intervals.map(({ level, lower, upper }) => (
+                  <td key={level} className="py-1 text-right">
+                    {lower.toFixed(2)} – {upper.toFixed(2)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Anomalies are relative to the {baseline.label} mean. Sorting by the
+        widest interval orders years by uncertainty.
+      </p>
+      {rows.some((row) => !row.realistic) && (
+        <p className="text-xs text-destructive">
+          * Prediction falls outside realistic range.
+        </p>
+      )}
+    </div>
+  );
+}
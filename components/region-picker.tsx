@@ -0,0 +1,58 @@
+"use client";
+
+import { ISLAND_GROUPS, REGIONS } from "@/lib/regions";
+
+/**
+ * Select of the administrative regions grouped by island group. The empty
+ * choice is offered as emptyLabel and reported as null.
+ */
+export default function RegionPicker({
+  id,
+  label,
+  value,
+  onChange,
+  emptyLabel,
+  exclude,
+  disabled,
+}: {
+  id: string;
+  label: string;
+  value: string | null;
+  onChange: (value: string | null) => void;
+  emptyLabel: string;
+  // Region that cannot be picked, such as the one already selected elsewhere
+  exclude?: string | null;
+  disabled?: boolean;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium mb-2">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={value ?? ""}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="w-full p-2.5 bg-background text-foreground border border-input rounded-md disabled:opacity-50"
+      >
+        <option value="">{emptyLabel}</option>
+        {ISLAND_GROUPS.map((group) => (
+          <optgroup key={group} label={group}>
+            {REGIONS.filter((region) => region.islandGroup === group).map(
+              (region) => (
+                <option
+                  key={region.code}
+                  value={region.code}
+                  disabled={region.code === exclude}
+                >
+                  {region.name}
+                </option>
+              )
+            )}
+          </optgroup>
+        ))}
+      </select>
+    </div>
+  );
+}
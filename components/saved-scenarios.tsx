@@ -0,0 +1,226 @@
+"use client";
+
+import { useToast } from "@/components/ui/use-toast";
+import { INDICATORS } from "@/lib/dataset";
+import { forecastModels } from "@/lib/forecast";
+import {
+  MAX_SCENARIO_NAME_LENGTH,
+  type SavedScenario,
+  type ScenarioDraft,
+} from "@/lib/scenarios";
+import { createClient } from "@/utils/supabase/client";
+import {
+  deleteScenario,
+  listScenarios,
+  renameScenario,
+  saveScenario,
+} from "@/utils/supabase/saved-scenarios";
+import { useEffect, useState } from "react";
+
+/**
+ * One-line summary of a scenario's settings and result
+ */
+function describeScenario({ config, prediction, dataset }: SavedScenario) {
+  const models = config.comparedModels
+    ? `${config.comparedModels.length} models`
+    : forecastModels[config.model].label;
+  const unit = INDICATORS.find((i) => i.key === config.indicator)?.unit ?? "";
+  return `${models}, ${config.targetYear}: ${prediction.toFixed(1)}${unit} · ${dataset.name} (${dataset.firstYear}–${dataset.lastYear})`;
+}
+
+/**
+ * "My scenarios" panel for signed-in users: saves the current simulation and
+ * lists saved ones to rename, reload or delete
+ */
+export default function SavedScenarios({
+  draft,
+  onLoad,
+}: {
+  // What would be saved now; null until a simulation has run
+  draft: ScenarioDraft | null;
+  onLoad: (scenario: SavedScenario) => void;
+}) {
+  const { toast } = useToast();
+  const supabase = createClient();
+  const [scenarios, setScenarios] = useState<SavedScenario[] | null>(null);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  // Scenario being renamed and its new name
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(
+    null
+  );
+
+  useEffect(() => {
+    listScenarios(supabase)
+      .then(({ data, error }) => {
+        if (error) throw error;
+        setScenarios(data ?? []);
+      })
+      .catch((error) => {
+        console.error("Error loading scenarios:", error);
+        setScenarios([]);
+        reportError("Could not load your scenarios");
+      });
+  }, []);
+
+  function reportError(title: string) {
+    toast({
+      title,
+      description: "Check your connection and try again.",
+      variant: "destructive",
+    });
+  }
+
+  async function handleSave() {
+    if (!draft || name.trim() === "") return;
+    setSaving(true);
+    const { data, error } = await saveScenario(supabase, name.trim(), draft);
+    setSaving(false);
+    if (error || !data) {
+      console.error("Error saving scenario:", error);
+      reportError("Could not save scenario");
+      return;
+    }
+    setScenarios((current) => [data, ...(current ?? [])]);
+    setName("");
+    toast({ title: "Scenario saved", description: data.name, duration: 3000 });
+  }
+
+  async function handleRename() {
+    if (!editing || editing.name.trim() === "") return;
+    const { data, error } = await renameScenario(
+      supabase,
+      editing.id,
+      editing.name.trim()
+    );
+    if (error || !data) {
+      console.error("Error renaming scenario:", error);
+      reportError("Could not rename scenario");
+      return;
+    }
+    setScenarios((current) =>
+      (current ?? []).map((s) => (s.id === data.id ? data : s))
+    );
+    setEditing(null);
+  }
+
+  async function handleDelete(scenario: SavedScenario) {
+    if (!window.confirm(`Delete "${scenario.name}"?`)) return;
+    const { error } = await deleteScenario(supabase, scenario.id);
+    if (error) {
+      console.error("Error deleting scenario:", error);
+      reportError("Could not delete scenario");
+      return;
+    }
+    setScenarios((current) =>
+      (current ?? []).filter((s) => s.id !== scenario.id)
+    );
+  }
+
+  return (
+    <div className="bg-muted rounded-md overflow-hidden">
+      <div className="p-4 bg-muted/50 border-b">
+        <h3 className="text-lg font-medium">My Scenarios</h3>
+      </div>
+      <div className="p-4 space-y-4 text-sm">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <input
+            aria-label="Scenario name"
+            value={name}
+            maxLength={MAX_SCENARIO_NAME_LENGTH}
+            placeholder={draft ? "Name this simulation" : "Run a simulation"}
+            disabled={!draft}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 p-2 bg-background text-foreground border border-input rounded-md disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            className="border border-input py-2 px-4 rounded-md hover:bg-background transition disabled:opacity-50"
+            disabled={!draft || name.trim() === "" || saving}
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </form>
+
+        {scenarios === null ? (
+          <p className="text-muted-foreground">Loading scenarios...</p>
+        ) : scenarios.length === 0 ? (
+          <p className="text-muted-foreground">No saved scenarios yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {scenarios.map((scenario) => (
+              <li key={scenario.id} className="py-2 space-y-1">
+                {editing?.id === scenario.id ? (
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleRename();
+                    }}
+                  >
+                    <input
+                      aria-label="New name"
+                      autoFocus
+                      value={editing.name}
+                      maxLength={MAX_SCENARIO_NAME_LENGTH}
+                      onChange={(e) =>
+                        setEditing({ id: scenario.id, name: e.target.value })
+                      }
+                      className="flex-1 p-1.5 bg-background text-foreground border border-input rounded-md"
+                    />
+                    <button type="submit" className="hover:underline">
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={() => setEditing(null)}
+                    >
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium flex-1 truncate">
+                      {scenario.name}
+                    </span>
+                    <button
+                      className="hover:underline"
+                      onClick={() => onLoad(scenario)}
+                    >
+                      Load
+                    </button>
+                    <button
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={() =>
+                        setEditing({ id: scenario.id, name: scenario.name })
+                      }
+                    >
+                      Rename
+                    </button>
+                    <button
+                      className="text-muted-foreground hover:text-destructive"
+                      onClick={() => handleDelete(scenario)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {describeScenario(scenario)} · saved{" "}
+                  {new Date(scenario.created_at).toLocaleDateString()}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { decomposeMonthly, type MonthlyTemperatureData } from "@/lib/forecast";
+import {
+  Chart as ChartJS,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Title,
+  Tooltip,
+} from "chart.js";
+import { Line } from "react-chartjs-2";
+
+ChartJS.register(
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+const MONTH_NAMES = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * Observed monthly temperatures split into trend, seasonal cycle and
+ * residual, one small chart each
+ */
+export default function SeasonalDecomposition({
+  records,
+  isDarkTheme,
+}: {
+  records: MonthlyTemperatureData[];
+  isDarkTheme: boolean;
+}) {
+  let decomposition;
+  try {
+    decomposition = decomposeMonthly(records);
+  } catch (error) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {error instanceof Error ? error.message : "Decomposition failed"}
+      </p>
+    );
+  }
+  const { x, observed, trend, residual, monthlyEffects } = decomposition;
+
+  const textColor = isDarkTheme ? "rgba(255, 255, 255, 0.8)" : undefined;
+  const gridColor = isDarkTheme ? "rgba(255, 255, 255, 0.1)" : undefined;
+  const lineColor = isDarkTheme
+    ? "rgba(255, 255, 255, 0.8)"
+    : "rgba(0, 0, 0, 0.7)";
+
+  /**
+   * Shared options for the three charts
+   * @param title - Chart heading
+   * @param xTicks - Formats x-axis ticks
+   */
+  function options(title: string, xTicks: (value: number) => string) {
+    return {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: false },
+        title: { display: true, text: title, color: textColor },
+      },
+      scales: {
+        x: {
+          type: "linear" as const,
+          ticks: {
+            color: textColor,
+            precision: 0,
+            callback: (value: number | string) => xTicks(Number(value)),
+          },
+          grid: { color: gridColor },
+        },
+        y: {
+          ticks: {
+            color: textColor,
+            callback: (value: number | string) => `${value}°C`,
+          },
+          grid: { color: gridColor },
+        },
+      },
+    };
+  }
+
+  const points = (values: (number | null)[]) =>
+    values.map((y, i) => ({ x: x[i], y }));
+  const year = (value: number) => String(Math.floor(value));
+
+  return (
+    <div className="space-y-4">
+      <div style={{ height: "220px" }}>
+        <Line
+          data={{
+            datasets: [
+              {
+                label: "Observed",
+                data: points(observed),
+                borderColor: "hsl(0, 0%, 60%)",
+                borderWidth: 1,
+                pointRadius: 0,
+              },
+              {
+                label: "Trend",
+                data: points(trend),
+                borderColor: lineColor,
+                borderWidth: 2,
+                pointRadius: 0,
+              },
+            ],
+          }}
+          options={options("Observed and Trend (12-month average)", year)}
+        />
+      </div>
+      <div style={{ height: "180px" }}>
+        <Line
+          data={{
+            datasets: [
+              {
+                label: "Seasonal effect",
+                data: monthlyEffects.map((y, i) => ({ x: i + 1, y })),
+                borderColor: "hsl(25, 90%, 55%)",
+                pointRadius: 3,
+                tension: 0.3,
+              },
+            ],
+          }}
+          options={options(
+            "Seasonal Cycle (departure from trend)",
+            (value) => MONTH_NAMES[value - 1] ?? ""
+          )}
+        />
+      </div>
+      <div style={{ height: "180px" }}>
+        <Line
+          data={{
+            datasets: [
+              {
+                label: "Residual",
+                data: points(residual),
+                borderColor: "transparent",
+                backgroundColor: "hsl(220, 70%, 50%)",
+                pointRadius: 1.5,
+              },
+            ],
+          }}
+          options={options("Residual", year)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,43 +1,147 @@
 "use client";
 
+import BacktestResults from "@/components/backtest-results";
+import ChangePointSummary from "@/components/change-point-summary";
+import DataQualityReport from "@/components/data-quality-report";
+import DataSourceBadge from "@/components/data-source-badge";
+import DatasetUpload, {
+  type UploadedDataset,
+} from "@/components/dataset-upload";
+import ModelComparison from "@/components/model-comparison";
+import { NumberField } from "@/components/number-field";
+import PolynomialOptionsPanel, {
+  type PolynomialSettings,
+} from "@/components/polynomial-options";
+import ProjectionTable from "@/components/projection-table";
+import RegionPicker from "@/components/region-picker";
+import SavedScenarios from "@/components/saved-scenarios";
+import SeasonalDecomposition from "@/components/seasonal-decomposition";
+import {
+  ArimaOptionsPanel,
+  HoltOptionsPanel,
+} from "@/components/time-series-options";
+import TrendStatistics from "@/components/trend-statistics";
 import { useToast } from "@/components/ui/use-toast";
+import {
+  aggregateSeason,
+  fillGaps,
+  GAP_HANDLING,
+  handleFlaggedPoints,
+  hasIndicator,
+  indicatorSeries,
+  INDICATORS,
+  MEAN_INDICATOR,
+  missingYears,
+  SEASON_SCHEMES,
+  SEASONS,
+  validateTemperatureRows,
+  type FlaggedPointHandling,
+  type GapHandling,
+  type IndicatorKey,
+  type QualityReport,
+} from "@/lib/dataset";
+import {
+  exportChartImage,
+  PNG_SCALES,
+  type ChartBackground,
+  type ChartImageFormat,
+} from "@/lib/export/chart-image";
+import { buildPdfReport } from "@/lib/export/pdf-report";
+import {
+  buildSimulationExport,
+  EXPORT_FORMATS,
+  exportJson,
+  exportLongCsv,
+  exportXlsx,
+  type ExportFormat,
+} from "@/lib/export/simulation-export";
+import {
+  backtest,
+  baselineMean,
+  baselineYears,
+  CLIMATE_BASELINES,
+  detectChangePoints,
+  forecastModels,
+  formatAnomaly,
+  MIN_TRAINING_YEARS,
+  PROJECTION_STEPS,
+  projectionYears,
+  runForecast,
+  type ArimaOptions,
+  type BacktestResult,
+  type ClimateBaseline,
+  type ForecastOptions,
+  type ForecastRun,
+  type HoltOptions,
+  type ModelType,
+  type MonthlyTemperatureData,
+  type PredictionLine,
+  type TemperatureData,
+} from "@/lib/forecast";
+import {
+  describeResult,
+  failedSimulation,
+  modelResult,
+  SIMULATION_ERRORS,
+  type ResultFormat,
+  type SimulationResult,
+} from "@/lib/forecast/result";
+import { regionName } from "@/lib/regions";
+import {
+  DATASET_SOURCE_LABELS,
+  datasetFingerprint,
+  type DatasetSnapshot,
+  snapshotDataset,
+  type DatasetSource,
+  type SavedScenario,
+  type ScenarioDraft,
+} from "@/lib/scenarios";
+import {
+  MIN_SIMULATION_YEAR,
+  parseSimulationParams,
+  simulationSearchParams,
+  type SimulationConfig,
+} from "@/lib/simulation-params";
+import { withSampleExtremes } from "@/utils/extremes-temp-data";
+import { sampleMonthlyTemperatureData } from "@/utils/monthly-temp-data";
+import { sampleTemperatureData } from "@/utils/regional-temp-data";
+import { readCachedSeries, writeCachedSeries } from "@/utils/dataset-cache";
 import { createClient } from "@/utils/supabase/client";
-import { mockTemperatureData } from "@/utils/temp-data";
 import {
-  CategoryScale,
+  fetchMonthlyTemperatures,
+  fetchTemperatureTrends,
+} from "@/utils/supabase/temperature-trends";
+import {
   Chart as ChartJS,
+  Filler,
   Legend,
+  type LegendItem,
   LinearScale,
   LineElement,
   PointElement,
   Title,
   Tooltip,
+  type TooltipItem,
 } from "chart.js";
+import annotationPlugin from "chartjs-plugin-annotation";
+import zoomPlugin from "chartjs-plugin-zoom";
+import { useSearchParams } from "next/navigation";
 import { useTheme } from "next-themes";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Line } from "react-chartjs-2";
-import regression from "regression";
 
 ChartJS.register(
-  CategoryScale,
   LinearScale,
   PointElement,
   LineElement,
   Title,
   Tooltip,
-  Legend
+  Legend,
+  Filler,
+  zoomPlugin,
+  annotationPlugin
 );
 
-// Temperature data structure from Supabase database
-type TemperatureData = {
-  year: string;
-  annual_mean: number;
-  five_year_smooth: number;
-};
-
-// Update model type definition
-type ModelType = "polynomial" | "moving-average" | "linear";
-
 // Define consistent colors for both themes
 const chartColors = {
   polynomial: {
@@ -52,46 +156,87 @@ const chartColors = {
     border: "hsl(340, 80%, 60%)",
     background: "hsla(340, 80%, 60%, 0.3)",
   },
+  exponential: {
+    border: "hsl(280, 60%, 60%)",
+    background: "hsla(280, 60%, 60%, 0.3)",
+  },
+  logarithmic: {
+    border: "hsl(190, 80%, 45%)",
+    background: "hsla(190, 80%, 45%, 0.3)",
+  },
+  power: {
+    border: "hsl(100, 55%, 45%)",
+    background: "hsla(100, 55%, 45%, 0.3)",
+  },
+  arima: {
+    border: "hsl(0, 70%, 55%)",
+    background: "hsla(0, 70%, 55%, 0.3)",
+  },
+  holt: {
+    border: "hsl(250, 70%, 65%)",
+    background: "hsla(250, 70%, 65%, 0.3)",
+  },
+  compareRegion: {
+    border: "hsl(30, 85%, 50%)",
+    background: "hsla(30, 85%, 50%, 0.3)",
+  },
+  tmax: {
+    border: "hsl(5, 75%, 55%)",
+    background: "hsla(5, 75%, 55%, 0.15)",
+  },
+  tmin: {
+    border: "hsl(210, 75%, 55%)",
+    background: "hsla(210, 75%, 55%, 0.15)",
+  },
+  annualMean: {
+    border: "hsl(0, 0%, 60%)",
+    background: "hsla(0, 0%, 60%, 0.3)",
+  },
   prediction: {
     border: "hsl(60, 80%, 50%)",
     background: "hsla(60, 80%, 50%, 0.3)",
   },
+  changePoint: {
+    border: "hsl(300, 60%, 50%)",
+    background: "hsla(300, 60%, 50%, 0.8)",
+  },
+};
+
+const modelColors: Record<ModelType, { border: string; background: string }> = {
+  polynomial: chartColors.polynomial,
+  linear: chartColors.linear,
+  "moving-average": chartColors.movingAverage,
+  exponential: chartColors.exponential,
+  logarithmic: chartColors.logarithmic,
+  power: chartColors.power,
+  arima: chartColors.arima,
+  holt: chartColors.holt,
 };
 
 /**
- * Converts simulation data to CSV format
+ * Saves a file to the user's downloads
  */
-function generateCSV(
-  data: TemperatureData[],
-  result: any,
-  predictionLine: { years: string[]; temps: number[] }
-) {
-  // Headers
-  let csv = "Year,Annual Mean,5-Year Smooth\n";
-
-  // Historical data
-  data.forEach((row) => {
-    csv += `${row.year},${row.annual_mean},${row.five_year_smooth}\n`;
-  });
-
-  // Prediction data
-  if (result && predictionLine.years.length > 0) {
-    csv += "\nPrediction Results\n";
-    csv += "Year,Predicted Temperature\n";
-    predictionLine.years.forEach((year, index) => {
-      csv += `${year},${predictionLine.temps[index]}\n`;
-    });
-
-    csv += "\nSimulation Details\n";
-    result.details.forEach((detail: string) => {
-      csv += `${detail}\n`;
-    });
-  }
-
-  return csv;
+function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
 }
 
-export default function SimulationInterface() {
+/**
+ * @param savedScenarios - Show the "My scenarios" panel; only for signed-in
+ * users
+ */
+export default function SimulationInterface({
+  savedScenarios = false,
+}: {
+  savedScenarios?: boolean;
+}) {
   console.log("SimulationInterface rendering");
 
   const { toast } = useToast();
@@ -99,376 +244,498 @@ export default function SimulationInterface() {
   // Check if dark mode is active by considering both explicit dark theme and system theme
   const isDarkTheme =
     theme === "dark" || (theme === "system" && systemTheme === "dark");
+  // Settings restored from a shared link, read once on load
+  const searchParams = useSearchParams();
+  const [restored] = useState(() =>
+    parseSimulationParams(new URLSearchParams(searchParams.toString()))
+  );
+  const initial = restored.config;
   // State management for simulation data and UI
-  const [data, setData] = useState<TemperatureData[]>([]);
-  const [selectedModel, setSelectedModel] = useState<ModelType>("polynomial");
-  const [yearToPredict, setYearToPredict] = useState<string>("2030");
-  const [result, setResult] = useState<{
-    prediction: number;
-    details: string[];
-    error?: string;
-  } | null>(null);
+  // Series loaded from Supabase or the sample data
+  const [builtinData, setBuiltinData] = useState<TemperatureData[]>([]);
+  const [builtinSource, setBuiltinSource] =
+    useState<Exclude<DatasetSource, "upload">>("sample");
+  // When the database series was fetched, if it came from the offline cache
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  // Checks run on the built-in series, and what models do with the years
+  // they flag
+  const [quality, setQuality] = useState<QualityReport | null>(null);
+  const [flaggedHandling, setFlaggedHandling] =
+    useState<FlaggedPointHandling>("keep");
+  // How years missing inside the analyzed series are filled
+  const [gapHandling, setGapHandling] = useState<GapHandling>("drop");
+  const [uploadedDataset, setUploadedDataset] =
+    useState<UploadedDataset | null>(null);
+  const [useUploaded, setUseUploaded] = useState(false);
+  // Region of the built-in series; null is the national series
+  const [region, setRegion] = useState<string | null>(initial.region);
+  // Second region plotted alongside for comparison
+  const [compareRegion, setCompareRegion] = useState<string | null>(
+    initial.compareRegion
+  );
+  const [compareData, setCompareData] = useState<TemperatureData[] | null>(
+    null
+  );
+  const [regionRun, setRegionRun] = useState<ForecastRun | null>(null);
+  const [monthlyFromDb, setMonthlyFromDb] = useState<
+    MonthlyTemperatureData[] | null
+  >(null);
+  // Season whose mean is analyzed instead of the annual mean; null for annual
+  const [season, setSeason] = useState<string | null>(initial.season);
+  const [showDecomposition, setShowDecomposition] = useState(false);
+  // Yearly quantity analyzed in place of the mean temperature
+  const [indicatorKey, setIndicatorKey] = useState<IndicatorKey>(
+    initial.indicator
+  );
+  const [selectedModel, setSelectedModel] = useState<ModelType>(initial.model);
+  const [startYear, setStartYear] = useState<string>(String(initial.startYear));
+  const [yearToPredict, setYearToPredict] = useState<string>(
+    String(initial.targetYear)
+  );
+  const [yearStep, setYearStep] = useState(initial.step);
+  const [polynomialOptions, setPolynomialOptions] =
+    useState<PolynomialSettings>(initial.polynomial);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  // Settings and series of the latest run, saved with its result
+  const [runSnapshot, setRunSnapshot] = useState<Pick<
+    ScenarioDraft,
+    "config" | "dataset"
+  > | null>(null);
+  // Series a loaded scenario was saved with, set until its rerun starts
+  const [scenarioDataset, setScenarioDataset] =
+    useState<DatasetSnapshot | null>(null);
   const [loading, setLoading] = useState(false);
-  const [predictionLine, setPredictionLine] = useState<{
-    years: string[];
-    temps: number[];
-  }>({ years: [], temps: [] });
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("json");
+  // PDF reports use a light palette or match the current theme
+  const [reportPalette, setReportPalette] = useState<"print" | "theme">(
+    "print"
+  );
+  // Chart image exports: file type, PNG pixel density and background
+  const [imageFormat, setImageFormat] = useState<ChartImageFormat>("png");
+  const [imageScale, setImageScale] = useState(2);
+  const [imageBackground, setImageBackground] =
+    useState<ChartBackground>("white");
+  // Export waiting for the chart to be redrawn in light colors
+  const [printingChart, setPrintingChart] = useState<"report" | "image" | null>(
+    null
+  );
+  const [predictionLine, setPredictionLine] = useState<PredictionLine>({
+    years: [],
+    temps: [],
+  });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [userInitiated, setUserInitiated] = useState(false);
+  // A shared link runs its simulation as soon as the data is loaded
+  const [userInitiated, setUserInitiated] = useState(restored.present);
+  const [arimaOptions, setArimaOptions] = useState<ArimaOptions>(initial.arima);
+  const [holtOptions, setHoltOptions] = useState<HoltOptions>(initial.holt);
+  const [comparisonMode, setComparisonMode] = useState(
+    initial.comparedModels !== null
+  );
+  const [comparedModels, setComparedModels] = useState<ModelType[]>(
+    initial.comparedModels ?? ["polynomial", "linear"]
+  );
+  const [comparison, setComparison] = useState<ForecastRun[] | null>(null);
+  const [holdoutYears, setHoldoutYears] = useState(10);
+  const [showAnnualMean, setShowAnnualMean] = useState(true);
+  const [showFiveYearSmooth, setShowFiveYearSmooth] = useState(true);
+  const [showTmax, setShowTmax] = useState(false);
+  const [showTmin, setShowTmin] = useState(false);
+  const [showChangePoints, setShowChangePoints] = useState(false);
+  const [baseline, setBaseline] = useState<ClimateBaseline>(initial.baseline);
+  const [anomalyMode, setAnomalyMode] = useState(initial.anomaly);
+  const chartRef = useRef<ChartJS<"line">>(null);
+  const [backtestResults, setBacktestResults] = useState<
+    BacktestResult[] | null
+  >(null);
+
+  // Monthly records for the region, spread from the annual series when the
+  // database has none
+  const monthlyData = useMemo(
+    () => monthlyFromDb ?? sampleMonthlyTemperatureData(builtinData),
+    [monthlyFromDb, builtinData]
+  );
+  const selectedSeason = useUploaded
+    ? null
+    : (SEASONS.find((s) => s.code === season) ?? null);
+
+  // Built-in series with flagged years excluded or interpolated as chosen
+  const checkedData = useMemo(
+    () =>
+      quality
+        ? handleFlaggedPoints(builtinData, quality.flagged, flaggedHandling)
+        : builtinData,
+    [builtinData, quality, flaggedHandling]
+  );
+  // Built-in series with Tmax, Tmin and heat-day counts, using sample values
+  // where the database has none
+  const extremesData = useMemo(
+    () => withSampleExtremes(checkedData),
+    [checkedData]
+  );
+  const sampleExtremes =
+    builtinData.length > 0 && !hasIndicator(builtinData, INDICATORS[1]);
+  // Indicators only apply to the built-in annual series
+  const selectedIndicator =
+    useUploaded || selectedSeason
+      ? MEAN_INDICATOR
+      : (INDICATORS.find((i) => i.key === indicatorKey) ?? MEAN_INDICATOR);
+  const unit = selectedIndicator.unit;
+  // How forecasts are written out in the results panel and the PDF report
+  const resultFormat: ResultFormat = {
+    unit,
+    predicted:
+      selectedIndicator.key === "mean"
+        ? "Predicted Temperature"
+        : `Predicted ${selectedIndicator.label}`,
+    baseline,
+  };
+  // Tmax and Tmin layers only sit alongside the built-in annual mean
+  const extremeLayersDisabled =
+    useUploaded || selectedSeason !== null || selectedIndicator.key !== "mean";
+
+  // Years recorded for the selected series, before gaps are filled
+  const recordedData = useMemo(() => {
+    if (useUploaded && uploadedDataset) return uploadedDataset.series;
+    if (selectedSeason) return aggregateSeason(monthlyData, selectedSeason);
+    return indicatorSeries(extremesData, selectedIndicator);
+  }, [
+    useUploaded,
+    uploadedDataset,
+    selectedSeason,
+    monthlyData,
+    extremesData,
+    selectedIndicator,
+  ]);
+  const gapYears = useMemo(() => missingYears(recordedData), [recordedData]);
+  // Series every model, chart and export works on
+  const data = useMemo(
+    () => fillGaps(recordedData, gapHandling),
+    [recordedData, gapHandling]
+  );
+  // Bends in the historical trend, looked for only while they are shown
+  const changePointAnalysis = useMemo(
+    () => (showChangePoints ? detectChangePoints(data) : null),
+    [showChangePoints, data]
+  );
+  // Regions only apply to the built-in annual series
+  const regionComparison = useMemo(
+    () =>
+      !useUploaded && !selectedSeason && compareData
+        ? fillGaps(
+            indicatorSeries(withSampleExtremes(compareData), selectedIndicator),
+            gapHandling
+          )
+        : null,
+    [useUploaded, selectedSeason, compareData, selectedIndicator, gapHandling]
+  );
 
   // Initialize Supabase client for data fetching
   const supabase = createClient();
 
-  // Fetch historical temperature data on component mount
+  // Fetch historical temperature data on mount and when the region changes
   useEffect(() => {
     console.log("Fetching data");
     fetchData();
-  }, []);
+  }, [region]);
 
-  // Automatically run simulation when model changes and there are existing results
+  // Fetch monthly records for the region; without them the sample spread
+  // from the annual series is used
+  useEffect(() => {
+    setMonthlyFromDb(null);
+    fetchMonthlyTemperatures(supabase, region)
+      .then(({ data: monthly, error: fetchError }) => {
+        if (fetchError) {
+          console.error("Error fetching monthly data:", fetchError);
+        } else if (monthly && monthly.length > 0) {
+          setMonthlyFromDb(monthly);
+        }
+      })
+      .catch((error) => console.error("Error connecting to Supabase:", error));
+  }, [region]);
+
+  // Fetch the comparison region, falling back to its sample data
+  useEffect(() => {
+    if (compareRegion === null) {
+      setCompareData(null);
+      return;
+    }
+    setCompareData(sampleTemperatureData(compareRegion));
+    fetchTemperatureTrends(supabase, compareRegion)
+      .then(({ data: tempData, error: fetchError }) => {
+        if (fetchError) {
+          console.error("Error fetching comparison region:", fetchError);
+        } else if (tempData && tempData.length > 0) {
+          setCompareData(tempData);
+        }
+      })
+      .catch((error) => console.error("Error connecting to Supabase:", error));
+  }, [compareRegion]);
+
+  // Automatically run simulation when model or its options change and there are existing results
   useEffect(() => {
     if (data.length > 0 && result !== null && userInitiated) {
       handleSimulation();
     }
-  }, [selectedModel]);
-
-  // Add this near the start of the component, right after the state definitions
+  }, [
+    selectedModel,
+    polynomialOptions,
+    arimaOptions,
+    holtOptions,
+    comparisonMode,
+    comparedModels,
+    baseline,
+    data,
+    regionComparison,
+  ]);
+
+  // Report link settings that could not be restored
   useEffect(() => {
-    // Only initialize prediction if user has explicitly requested it
-    if (data.length > 0 && !result && userInitiated) {
-      handleSimulation();
+    if (restored.errors.length > 0) {
+      toast({
+        title: "Some link settings were ignored",
+        description: restored.errors.join("\n"),
+        variant: "destructive",
+      });
     }
-  }, [data]);
+  }, []);
 
-  // Verify regression has the linear method
+  // Keep the page URL in step with the settings so it can be shared
+  const simulationConfig: SimulationConfig = {
+    model: selectedModel,
+    startYear: parseInt(startYear),
+    targetYear: parseInt(yearToPredict),
+    step: yearStep,
+    region,
+    compareRegion,
+    season,
+    indicator: indicatorKey,
+    baseline,
+    anomaly: anomalyMode,
+    comparedModels: comparisonMode ? comparedModels : null,
+    polynomial: polynomialOptions,
+    arima: arimaOptions,
+    holt: holtOptions,
+  };
+  const simulationQuery = simulationSearchParams(simulationConfig).toString();
   useEffect(() => {
-    // Log regression methods for debugging
-    console.log("Regression methods:", Object.keys(regression));
-  }, []);
+    const url = `${window.location.pathname}${simulationQuery ? `?${simulationQuery}` : ""}`;
+    // Keep Next.js's own history state so back and forward still work
+    window.history.replaceState(window.history.state, "", url);
+  }, [simulationQuery]);
 
   /**
-   * Fetches historical temperature data from Supabase
-   * Handles loading states and error scenarios
+   * Copies a link that reopens and reruns the current simulation
    */
-  async function fetchData() {
-    setIsLoading(true);
-    setError(null);
-
-    // Immediately set mock data initially to ensure we have something to display
-    setData(mockTemperatureData);
-    console.log("Set initial mock data, length:", mockTemperatureData.length);
-
+  async function handleCopyLink() {
     try {
-      // Try to fetch from Supabase
-      const { data: tempData, error: fetchError } = await supabase
-        .from("philippines_temperature_trends")
-        .select("*")
-        .order("year", { ascending: true });
-
-      if (fetchError) {
-        console.error("Error fetching data:", fetchError);
-        toast({
-          title: "Using sample data",
-          description:
-            "Connected to database failed. Using sample data instead.",
-          variant: "default",
-        });
-      } else if (tempData && tempData.length > 0) {
-        console.log("Got Supabase data, length:", tempData.length);
-        setData(tempData as TemperatureData[]);
-      } else {
-        console.log("No data from Supabase, continuing with mock data");
-      }
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link copied",
+        description: useUploaded
+          ? "Uploaded data is not part of the link; it opens on the built-in series."
+          : "Opening the link reruns this simulation.",
+      });
     } catch (error) {
-      console.error("Error connecting to Supabase:", error);
+      console.error("Error copying link:", error);
       toast({
-        title: "Using sample data",
-        description: "Connected to database failed. Using sample data instead.",
-        variant: "default",
+        title: "Could not copy link",
+        description: "Copy the address from the browser's address bar.",
+        variant: "destructive",
       });
     }
-
-    setIsLoading(false);
   }
 
+  // Name of the series on display, used in exports
+  const seriesLabel = selectedSeason
+    ? `${selectedSeason.label} mean`
+    : selectedIndicator.key === "mean"
+      ? "Annual mean"
+      : selectedIndicator.label;
+  const dataSource: DatasetSource = useUploaded ? "upload" : builtinSource;
+
   /**
-   * Calculates temperature prediction using polynomial regression
-   * @param targetYear - Year to predict temperature for
-   * @returns Object containing prediction, equation, and R² value
+   * Name a saved scenario gives its series
    */
-  function calculatePolynomialRegression(targetYear: string = yearToPredict) {
-    if (data.length === 0) return { prediction: 0, equation: "", r2: 0 };
-
-    // Use more recent data (last 30 years) to capture current trends better
-    const recentData = data.slice(-30);
-
-    // Normalize years to prevent numerical instability
-    const baseYear = parseInt(recentData[0].year);
-    const points = recentData.map(
-      (d) =>
-        [
-          Number(d.year) - baseYear, // Normalize years
-          d.five_year_smooth,
-        ] as [number, number]
-    );
-
-    // Calculate regression with quadratic polynomial (order: 2) for more conservative predictions
-    const result = regression.polynomial(points, { order: 2, precision: 10 });
-
-    // For prediction, normalize the target year the same way
-    const normalizedYear = parseInt(targetYear) - baseYear;
+  function datasetName() {
+    if (useUploaded && uploadedDataset) return uploadedDataset.name;
+    return `${regionName(region)}, ${seriesLabel}`;
+  }
 
-    // Apply stronger dampening factor for long-term predictions to prevent unrealistic growth
-    const currentYear = new Date().getFullYear();
-    const yearsIntoFuture = parseInt(targetYear) - currentYear;
+  // What the scenarios panel saves; only successful runs can be saved
+  const scenarioDraft: ScenarioDraft | null =
+    result && !result.error && runSnapshot && data.length > 0
+      ? {
+          ...runSnapshot,
+          prediction: result.models[0].prediction,
+          result,
+        }
+      : null;
 
-    // More aggressive dampening to flatten the curve for distant predictions
-    const dampeningFactor = Math.max(
-      0.2,
-      1 - Math.pow(yearsIntoFuture / 50, 0.8)
+  /**
+   * Restores every setting of a saved or shared simulation. Stored configs
+   * go through the link parser, which checks them and maps the baseline
+   * back to its entry in CLIMATE_BASELINES.
+   */
+  function applySimulationConfig(stored: SimulationConfig) {
+    const { config, errors } = parseSimulationParams(
+      simulationSearchParams(stored)
     );
-
-    const rawPrediction = result.predict(normalizedYear)[1];
-
-    // Calculate how much the raw prediction deviates from the last known value
-    const lastKnownTemp = recentData[recentData.length - 1].five_year_smooth;
-    const predictedChange = rawPrediction - lastKnownTemp;
-
-    // Apply stronger dampening for larger changes
-    const adjustmentFactor =
-      predictedChange > 0
-        ? Math.max(0.3, 1 - predictedChange / 10) // For positive changes (warming)
-        : Math.min(1.7, 1 - predictedChange / 10); // For negative changes (cooling)
-
-    // Apply both dampening factors
-    const dampedChange = predictedChange * dampeningFactor * adjustmentFactor;
-    const prediction = lastKnownTemp + dampedChange;
-
-    // Get coefficients for a more readable equation
-    const [a, b, c] = result.equation;
-    const equation = `y = ${a.toExponential(6)}x² + ${b.toFixed(6)}x + ${c.toFixed(4)}`;
-
-    // Calculate base R² (model fit to historical data)
-    const n = points.length;
-    const p = 2; // number of predictors (x and x²)
-    const baseR2 = 1 - ((1 - result.r2) * (n - 1)) / (n - p - 1);
-
-    // Calculate confidence decay based on prediction distance
-    const maxConfidentYears = 15; // Extended from 10 to 15 years for full confidence
-    const maxPredictionYears = 76; // Years until 2100
-
-    let confidenceMultiplier = 1;
-    if (yearsIntoFuture > maxConfidentYears) {
-      // Slower decay from 100% to 25%
-      const decay = Math.pow(
-        (yearsIntoFuture - maxConfidentYears) /
-          (maxPredictionYears - maxConfidentYears),
-        0.7
-      );
-      confidenceMultiplier = Math.max(0.25, 1 - decay * 0.75);
+    if (errors.length > 0) {
+      toast({
+        title: "Some scenario settings were ignored",
+        description: errors.join("\n"),
+        variant: "destructive",
+      });
     }
-
-    // Apply distance-based confidence reduction
-    const adjustedR2 = baseR2 * confidenceMultiplier;
-
-    return {
-      prediction,
-      equation,
-      r2: adjustedR2,
-    };
+    setSelectedModel(config.model);
+    setStartYear(String(config.startYear));
+    setYearToPredict(String(config.targetYear));
+    setYearStep(config.step);
+    if (config.region !== region) {
+      // Hold the rerun until the scenario's region is fetched
+      setIsLoading(true);
+      setRegion(config.region);
+    }
+    setCompareRegion(config.compareRegion);
+    setSeason(config.season);
+    setIndicatorKey(config.indicator);
+    setBaseline(config.baseline);
+    setAnomalyMode(config.anomaly);
+    setComparisonMode(config.comparedModels !== null);
+    if (config.comparedModels) setComparedModels(config.comparedModels);
+    setPolynomialOptions(config.polynomial);
+    setArimaOptions(config.arima);
+    setHoltOptions(config.holt);
   }
 
   /**
-   * Calculates temperature prediction using 5-year moving average
-   * @param targetYear - Year to predict temperature for
-   * @returns Object containing prediction and descriptive statistics
+   * Reloads a saved scenario. Built-in series are selected by the saved
+   * region, season and indicator and rerun on the live data; uploaded
+   * series rerun on their saved snapshot.
    */
-  function calculateMovingAverage(targetYear: string = yearToPredict) {
-    if (data.length === 0) return { prediction: 0, description: "", r2: 0 };
-
-    // Get the last 5 years of data
-    const recentData = data.slice(-5);
-    const avgTemp =
-      recentData.reduce((sum, d) => sum + d.five_year_smooth, 0) /
-      recentData.length;
-
-    // Calculate the average yearly rate of change over the last 5 years
-    const yearlyChange =
-      (recentData[recentData.length - 1].five_year_smooth -
-        recentData[0].five_year_smooth) /
-      4; // 4 intervals in 5 years
-
-    // Calculate years from last data point
-    const lastYear = parseInt(data[data.length - 1].year);
-    const yearsAhead = parseInt(targetYear) - lastYear;
-
-    // Project temperature using the yearly rate of change
-    const prediction = avgTemp + yearlyChange * yearsAhead;
-
-    // Calculate confidence based on how well the linear trend fits
-    const startTemp = recentData[0].five_year_smooth;
-    const predictedValues = recentData.map(
-      (_, i) => startTemp + yearlyChange * i
-    );
-    const actualValues = recentData.map((d) => d.five_year_smooth);
-
-    const meanActual =
-      actualValues.reduce((a, b) => a + b) / actualValues.length;
-    const ssTotal = actualValues.reduce(
-      (sum, val) => sum + Math.pow(val - meanActual, 2),
-      0
-    );
-    const ssResidual = actualValues.reduce(
-      (sum, val, i) => sum + Math.pow(val - predictedValues[i], 2),
-      0
-    );
+  function handleLoadScenario(scenario: SavedScenario) {
+    const { config, dataset } = scenario;
+    applySimulationConfig(config);
+    setBacktestResults(null);
+    if (dataset.source === "upload") {
+      // Uploads are always analyzed as mean temperatures in °C, so the
+      // snapshot reruns with the unit and bounds it was saved with
+      setUploadedDataset({
+        name: `${dataset.name} (saved)`,
+        series: dataset.series,
+      });
+      setUseUploaded(true);
+    } else {
+      setUseUploaded(false);
+    }
+    setScenarioDataset(dataset);
+  }
 
-    // Ensure R² is between 0 and 1
-    const r2 = Math.max(0, Math.min(1, 1 - ssResidual / ssTotal));
+  // Rerun a loaded scenario once its series is in place
+  useEffect(() => {
+    if (!scenarioDataset || isLoading || data.length === 0) return;
+    setScenarioDataset(null);
+    handleSimulation();
+    if (datasetFingerprint(data) !== scenarioDataset.fingerprint) {
+      toast({
+        title: "The data has changed",
+        description:
+          "The series differs from the one this scenario was saved with, so its result may differ from the saved one.",
+      });
+    }
+  }, [scenarioDataset, isLoading]);
+
+  // Model-specific settings passed to every fit
+  const forecastOptions: ForecastOptions = {
+    baseline,
+    bounds: selectedIndicator.bounds,
+    polynomial: polynomialOptions,
+    arima: arimaOptions,
+    holt: holtOptions,
+  };
 
-    return {
-      prediction,
-      description: `Rate of change: ${yearlyChange > 0 ? "+" : ""}${(yearlyChange * 100).toFixed(4)}°C per year`,
-      r2,
-    };
-  }
+  // Add this near the start of the component, right after the state definitions
+  useEffect(() => {
+    // Only initialize prediction if user has explicitly requested it
+    if (data.length > 0 && !result && userInitiated) {
+      handleSimulation();
+    }
+  }, [data]);
 
   /**
-   * Calculates temperature prediction using simple linear regression
-   * @param targetYear - Year to predict temperature for
-   * @returns Object containing prediction, equation, and R² value
+   * Fetches historical temperature data from Supabase. The last successful
+   * fetch is cached, and shown first and kept when Supabase cannot be
+   * reached; without a cached copy the sample data is used.
    */
-  function calculateLinearRegression(targetYear: string = yearToPredict) {
-    if (data.length === 0) return { prediction: 0, equation: "", r2: 0 };
-
-    // Normalize years by using the first year in the dataset as base year
-    const baseYear = parseInt(data[0].year);
+  async function fetchData() {
+    setIsLoading(true);
+    setError(null);
 
-    // Create normalized points where x is years since baseYear
-    const points = data.map(
-      (d) => [Number(d.year) - baseYear, d.five_year_smooth] as [number, number]
+    const cached = await readCachedSeries(region);
+    const shown = validateTemperatureRows(
+      cached ? cached.series : sampleTemperatureData(region)
     );
+    setBuiltinData(shown.series);
+    setQuality(shown.report);
+    setBuiltinSource(cached ? "database" : "sample");
+    setCachedAt(cached ? cached.savedAt : null);
 
-    // Calculate linear regression on normalized data
-    const result = regression.linear(points, { precision: 10 });
-
-    // For prediction, normalize the target year the same way
-    const normalizedYear = parseInt(targetYear) - baseYear;
-    const prediction = result.predict(normalizedYear)[1];
-
-    // Get coefficients for the equation
-    const [slope, intercept] = result.equation;
-
-    // The intercept now represents the estimated temperature at the baseYear
-    const equationYear = baseYear;
-    const equation = `y = ${slope.toFixed(6)}x + ${intercept.toFixed(4)}`;
-
-    // Provide a more intuitive equation for users
-    const simplifiedEquation = `Temperature in ${targetYear} = ${intercept.toFixed(2)}°C + ${slope > 0 ? "+" : ""}${(slope * (parseInt(targetYear) - baseYear)).toFixed(2)}°C`;
+    const reportOffline = () =>
+      toast({
+        title: cached ? "Using cached data" : "Using sample data",
+        description: cached
+          ? `Could not reach the database. Showing data fetched ${new Date(cached.savedAt).toLocaleString()}.`
+          : "Connected to database failed. Using sample data instead.",
+        variant: "default",
+      });
 
-    // Apply confidence adjustment based on prediction distance
-    const currentYear = new Date().getFullYear();
-    const yearsIntoFuture = parseInt(targetYear) - currentYear;
-    const maxConfidentYears = 15;
-    const maxPredictionYears = 76;
+    try {
+      const {
+        data: tempData,
+        quality: tempQuality,
+        error: fetchError,
+      } = await fetchTemperatureTrends(supabase, region);
 
-    let confidenceMultiplier = 1;
-    if (yearsIntoFuture > maxConfidentYears) {
-      const decay = Math.pow(
-        (yearsIntoFuture - maxConfidentYears) /
-          (maxPredictionYears - maxConfidentYears),
-        0.7
-      );
-      confidenceMultiplier = Math.max(0.25, 1 - decay * 0.75);
+      if (fetchError) {
+        console.error("Error fetching data:", fetchError);
+        reportOffline();
+      } else if (tempData && tempData.length > 0) {
+        setBuiltinData(tempData);
+        setQuality(tempQuality);
+        setBuiltinSource("database");
+        setCachedAt(null);
+        writeCachedSeries(region, tempData);
+      } else {
+        console.log(
+          "No data from Supabase, continuing with cached or sample data"
+        );
+      }
+    } catch (error) {
+      console.error("Error connecting to Supabase:", error);
+      reportOffline();
     }
 
-    // Apply distance-based confidence reduction
-    const adjustedR2 = result.r2 * confidenceMultiplier;
-
-    return {
-      prediction,
-      equation,
-      simplifiedEquation,
-      baseYear,
-      slope,
-      intercept,
-      r2: adjustedR2,
-    };
+    setIsLoading(false);
   }
 
   /**
-   * Generates points for prediction trend line visualization
-   * @param prediction - Final predicted temperature
-   * @param model - Selected prediction model type
-   * @returns Object containing arrays of years and temperatures for plotting
+   * Switches between the uploaded series and the built-in one. Backtests
+   * belong to the previous series, so they are cleared.
    */
-  function generatePredictionLine(
-    predictionTemp: number,
-    modelType: ModelType
-  ) {
-    // Use length check to avoid errors
-    if (data.length === 0) {
-      return { years: [], temps: [] };
-    }
-
-    const lastDataYear = parseInt(data[data.length - 1].year);
-    const predictionYear = parseInt(yearToPredict);
-    const years: string[] = [];
-    const temps: number[] = [];
-
-    // Start from the last data point
-    years.push(lastDataYear.toString());
-    temps.push(data[data.length - 1].five_year_smooth);
-
-    // Generate prediction line points
-    const numPoints = 5; // Use 5 points for a smoother line
-    const yearStep = Math.ceil((predictionYear - lastDataYear) / numPoints);
-
-    // Ensure we have at least one step
-    if (yearStep <= 0 || predictionYear <= lastDataYear) {
-      // Just add the prediction point
-      years.push(predictionYear.toString());
-      temps.push(predictionTemp);
-      return { years, temps };
-    }
-
-    for (
-      let year = lastDataYear + yearStep;
-      year <= predictionYear;
-      year += yearStep
-    ) {
-      const currentYear = year.toString();
-      years.push(currentYear);
-
-      // Calculate intermediate predictions
-      let temp;
-      if (modelType === "polynomial") {
-        const { prediction: intermediateTemp } =
-          calculatePolynomialRegression(currentYear);
-        temp = intermediateTemp;
-      } else if (modelType === "linear") {
-        const { prediction: intermediateTemp } =
-          calculateLinearRegression(currentYear);
-        temp = intermediateTemp;
-      } else {
-        const { prediction: intermediateTemp } =
-          calculateMovingAverage(currentYear);
-        temp = intermediateTemp;
-      }
-
-      // Ensure we have a valid number
-      temps.push(isNaN(temp) ? predictionTemp : temp);
-    }
-
-    // Ensure the final prediction point is included
-    if (years[years.length - 1] !== predictionYear.toString()) {
-      years.push(predictionYear.toString());
-      temps.push(predictionTemp);
-    }
+  function selectDataSource(uploaded: boolean) {
+    setUseUploaded(uploaded);
+    setBacktestResults(null);
+  }
 
-    console.log("Generated prediction line:", { years, temps });
-    return { years, temps };
+  function handleUpload(dataset: UploadedDataset) {
+    setUploadedDataset(dataset);
+    selectDataSource(true);
+    toast({
+      title: "Dataset loaded",
+      description: `${dataset.name}: ${dataset.series.length} years of data.`,
+      duration: 3000,
+    });
   }
 
   /**
@@ -481,323 +748,672 @@ export default function SimulationInterface() {
   function handleSimulation() {
     // Set user initiated to true
     setUserInitiated(true);
+    setRegionRun(null);
+    setRunSnapshot({
+      config: simulationConfig,
+      dataset: snapshotDataset(data, datasetName(), dataSource),
+    });
 
     // Add year validation
     const inputYear = parseInt(yearToPredict);
-    if (inputYear < 2024) {
-      setResult({
-        prediction: 0,
-        details: ["Invalid year selected"],
-        error: "Please select a year from 2024 onwards for predictions.",
-      });
+    const firstYear = parseInt(startYear);
+    if (inputYear < MIN_SIMULATION_YEAR || firstYear < MIN_SIMULATION_YEAR) {
+      setResult(failedSimulation(inputYear, "invalid-year"));
+      setLoading(false);
+      return;
+    }
+    if (firstYear > inputYear) {
+      setResult(failedSimulation(inputYear, "invalid-range"));
       setLoading(false);
       return;
     }
 
     setLoading(true);
     try {
-      let prediction: number;
-      let details: string[] = [];
-
-      if (selectedModel === "polynomial") {
-        const {
-          prediction: polyPrediction,
-          r2,
-          equation,
-        } = calculatePolynomialRegression();
-        prediction = polyPrediction;
-        details = [
-          `Year: ${yearToPredict}`,
-          `Predicted Temperature: ${polyPrediction.toFixed(1)}°C`,
-          `Model: Polynomial Regression`,
-          `Equation: ${equation}`,
-          `Model Confidence: ${(r2 * 100).toFixed(0)}%`,
-        ];
-      } else if (selectedModel === "linear") {
-        const {
-          prediction: linearPrediction,
-          r2,
-          equation,
-          simplifiedEquation,
-          baseYear,
-          intercept = 0, // Provide default value to avoid undefined error
-        } = calculateLinearRegression();
-        prediction = linearPrediction;
-        details = [
-          `Year: ${yearToPredict}`,
-          `Predicted Temperature: ${linearPrediction.toFixed(1)}°C`,
-          `Model: Linear Regression`,
-          `Base Year: ${baseYear} (Temperature: ${intercept.toFixed(2)}°C)`,
-          `Technical Equation: ${equation}`,
-          // `Simplified: ${simplifiedEquation}`,
-          `Model Confidence: ${(r2 * 100).toFixed(0)}%`,
-        ];
-      } else {
-        const { prediction: mavgPrediction, r2 } = calculateMovingAverage();
-        prediction = mavgPrediction;
-        details = [
-          `Year: ${yearToPredict}`,
-          `Predicted Temperature: ${mavgPrediction.toFixed(1)}°C`,
-          `Model: 5-Year Moving Average`,
-          `Model Confidence: ${(r2 * 100).toFixed(0)}%`,
-        ];
+      const targetYear = parseInt(yearToPredict);
+
+      if (comparisonMode) {
+        if (comparedModels.length === 0) {
+          setResult(failedSimulation(targetYear, "no-models"));
+          return;
+        }
+        const runs = comparedModels.map((type) =>
+          runForecast(data, type, targetYear, forecastOptions)
+        );
+        setComparison(runs);
+        setResult({
+          targetYear,
+          models: runs.map((run) => modelResult(run, forecastOptions, data)),
+          error: null,
+        });
+        return;
       }
 
-      // Validate prediction
-      const maxTemp = Math.max(...data.map((d) => d.annual_mean));
-      const minTemp = Math.min(...data.map((d) => d.annual_mean));
-      const baseMargin = 1.5;
-
-      // Dynamic margin that increases with prediction distance
-      const currentYear = new Date().getFullYear();
-      const yearsIntoFuture = parseInt(yearToPredict) - currentYear;
-      const marginIncrease = Math.min(3, yearsIntoFuture / 20); // Increases by up to 3°C based on prediction distance
-      const margin = baseMargin + marginIncrease;
-
-      const allowedMin = minTemp - margin;
-      const allowedMax = maxTemp + margin;
+      const run = runForecast(
+        data,
+        selectedModel,
+        targetYear,
+        forecastOptions,
+        projectionYears(firstYear, targetYear, yearStep)
+      );
 
-      if (prediction < allowedMin || prediction > allowedMax) {
-        setResult({
-          prediction: 0,
-          details: ["Out of realistic range"],
-          error: "Prediction falls outside realistic range.",
-        });
+      // Validate prediction against historical ranges
+      if (!run.realistic) {
+        setResult(failedSimulation(targetYear, "unrealistic"));
         setLoading(false);
         return;
       }
 
-      // Generate prediction line data
-      const predLine = generatePredictionLine(prediction, selectedModel);
-      console.log("Setting prediction line:", predLine);
-      setPredictionLine(predLine);
+      setPredictionLine(run.line);
+
+      // Run the same model on the comparison region; it is left off the
+      // chart if it cannot be fitted
+      let comparedRun: ForecastRun | null = null;
+      if (regionComparison) {
+        try {
+          comparedRun = runForecast(
+            regionComparison,
+            selectedModel,
+            targetYear,
+            forecastOptions,
+            projectionYears(firstYear, targetYear, yearStep)
+          );
+        } catch (error) {
+          console.error("Comparison region error:", error);
+        }
+      }
+      setRegionRun(comparedRun);
 
       setResult({
-        prediction,
-        details,
+        targetYear,
+        models: [modelResult(run, forecastOptions, data)],
+        error: null,
       });
     } catch (error) {
       console.error("Simulation error:", error);
-      setResult({
-        prediction: 0,
-        details: ["❌ Something went wrong. Please try again."],
-        error: "Calculation error occurred",
-      });
+      setResult(failedSimulation(parseInt(yearToPredict), "calculation"));
     } finally {
       setLoading(false);
     }
   }
 
   /**
-   * Calculates appropriate y-axis range for chart based on prediction
-   * Ensures visualization remains clear and meaningful
+   * Hides the last holdoutYears from training and forecasts them with every
+   * model, so their errors can be compared
    */
-  function calculateYAxisRange(prediction: number | undefined) {
-    const baseMin = 24;
-    const baseMax = 28;
-
-    if (!prediction) return { min: baseMin, max: baseMax };
+  function handleBacktest() {
+    const results: BacktestResult[] = [];
+    const failures: string[] = [];
+
+    // A model that cannot be fitted on the shortened series is skipped
+    Object.values(forecastModels).forEach((model) => {
+      try {
+        results.push(backtest(data, model, holdoutYears, forecastOptions));
+      } catch (error) {
+        console.error(`Backtest error (${model.type}):`, error);
+        failures.push(
+          `${model.label}: ${error instanceof Error ? error.message : "Calculation error occurred"}`
+        );
+      }
+    });
 
-    if (prediction > 29) {
-      return { min: baseMin, max: 30 };
-    } else if (prediction > 28) {
-      return { min: baseMin, max: 29 };
+    if (failures.length > 0) {
+      toast({
+        title:
+          results.length > 0 ? "Some models were skipped" : "Backtest failed",
+        description: failures.join("\n"),
+        variant: "destructive",
+      });
     }
+    setBacktestResults(results.length > 0 ? results : null);
+  }
+
+  // Mean of the baseline period, subtracted from every plotted value in
+  // anomaly mode
+  const baselineOffset = baselineMean(data, baseline);
+  const showAnomalies = anomalyMode && baselineOffset !== null;
+  // The comparison region is measured against its own baseline mean, and
+  // left off the chart in anomaly mode when it has no baseline years
+  const compareBaselineOffset = regionComparison
+    ? baselineMean(regionComparison, baseline)
+    : null;
+  const showRegionComparison =
+    regionComparison !== null &&
+    (!showAnomalies || compareBaselineOffset !== null);
+  // The chart briefly switches to light colors to be captured for a
+  // print-friendly report or an image export
+  const chartDark = isDarkTheme && !printingChart;
+
+  /**
+   * Calculates appropriate y-axis range for chart based on the plotted values,
+   * padded and rounded out to the nearest half degree
+   */
+  function calculateYAxisRange(values: number[]) {
+    const finite = values.filter((value) => isFinite(value));
+    if (finite.length === 0) return { min: undefined, max: undefined };
 
-    return { min: baseMin, max: baseMax };
+    const padding = 0.25;
+    return {
+      min: Math.floor((Math.min(...finite) - padding) * 2) / 2,
+      max: Math.ceil((Math.max(...finite) + padding) * 2) / 2,
+    };
   }
 
-  const yAxisRange = calculateYAxisRange(result?.prediction);
+  /**
+   * Converts parallel year and value arrays to chart points, as anomalies
+   * when anomaly mode is on
+   * @param offset - Baseline mean of the series, the selected one's by default
+   */
+  function toPoints(
+    years: (string | number)[],
+    values: number[],
+    offset = baselineOffset ?? 0
+  ) {
+    return years.map((year, index) => ({
+      x: Number(year),
+      y: values[index] - (showAnomalies ? offset : 0),
+    }));
+  }
 
-  // Chart data structure for visualization
-  const chartData = {
-    labels: [
-      ...data.filter((_, index) => index % 10 === 0).map((d) => d.year),
-      ...(userInitiated ? predictionLine.years.slice(1) : []),
-    ],
-    datasets: [
-      // Show Annual Mean Temperature for polynomial regression
-      ...(selectedModel === "polynomial"
+  /**
+   * Historical series switched on by the user, one point per year
+   * @param name - Prefix for the labels, used when two regions are shown
+   * @param color - Colors used instead of the defaults
+   * @param offset - Baseline mean subtracted in anomaly mode
+   */
+  function buildHistoryDatasets(
+    series: TemperatureData[],
+    name?: string,
+    color?: { border: string; background: string },
+    offset?: number
+  ) {
+    const years = series.map((d) => d.year);
+    const imputed = series.filter((d) => d.imputed);
+    return [
+      ...(showAnnualMean
         ? [
             {
-              label: "Annual Mean Temperature",
-              data:
-                data.length > 0
-                  ? data
-                      .filter((_, index) => index % 10 === 0)
-                      .map((d) => d.annual_mean)
-                  : [],
-              borderColor: chartColors.polynomial.border,
-              backgroundColor: chartColors.polynomial.background,
+              label: name
+                ? `${name} Annual Mean`
+                : selectedIndicator.key === "mean"
+                  ? "Annual Mean Temperature"
+                  : selectedIndicator.label,
+              data: toPoints(
+                years,
+                series.map((d) => d.annual_mean),
+                offset
+              ),
+              borderColor: color
+                ? color.background
+                : chartColors.annualMean.border,
+              backgroundColor: (color ?? chartColors.annualMean).background,
+              borderWidth: 1,
               tension: 0.1,
+              // Imputed years are marked by their own dataset below
+              pointRadius: series.map((d) => (d.imputed ? 0 : 2)),
+            },
+          ]
+        : []),
+      ...(showAnnualMean && imputed.length > 0
+        ? [
+            {
+              label: name ? `${name} Imputed Values` : "Imputed Values",
+              data: toPoints(
+                imputed.map((d) => d.year),
+                imputed.map((d) => d.annual_mean),
+                offset
+              ),
+              borderColor: color?.border ?? chartColors.annualMean.border,
+              backgroundColor: "transparent",
+              showLine: false,
+              pointStyle: "rectRot" as const,
               pointRadius: 4,
+              pointBorderWidth: 1.5,
             },
           ]
         : []),
-
-      // Show 5-Year Smooth for linear regression
-      ...(selectedModel === "linear"
+      ...(showFiveYearSmooth
         ? [
             {
-              label: "Historical Data (5-Year Smooth)",
-              data:
-                data.length > 0
-                  ? data
-                      .filter((_, index) => index % 10 === 0)
-                      .map((d) => d.five_year_smooth)
-                  : [],
-              borderColor: chartColors.linear.border,
-              backgroundColor: chartColors.linear.background,
+              label: name ? `${name} 5-Year Smooth` : "5-Year Smooth",
+              data: toPoints(
+                years,
+                series.map((d) => d.five_year_smooth),
+                offset
+              ),
+              borderColor: color
+                ? color.border
+                : chartDark
+                  ? "rgba(255, 255, 255, 0.7)"
+                  : "rgba(0, 0, 0, 0.6)",
+              backgroundColor: "transparent",
               tension: 0.1,
-              pointRadius: 4,
+              pointRadius: 0,
             },
           ]
         : []),
+    ];
+  }
 
-      // Show 5-Year Smooth for moving average
-      ...(selectedModel === "moving-average"
+  /**
+   * Tmax and Tmin lines for the built-in annual series, shaded between when
+   * both are shown
+   */
+  function buildExtremesDatasets() {
+    if (extremeLayersDisabled) return [];
+    const years = extremesData.map((d) => d.year);
+    return [
+      ...(showTmax
         ? [
             {
-              label: "5-Year Smooth",
-              data:
-                data.length > 0
-                  ? data
-                      .filter((_, index) => index % 10 === 0)
-                      .map((d) => d.five_year_smooth)
-                  : [],
-              borderColor: chartColors.movingAverage.border,
-              backgroundColor: chartColors.movingAverage.background,
+              label: "Maximum Temperature (Tmax)",
+              data: toPoints(
+                years,
+                extremesData.map((d) => d.tmax!)
+              ),
+              borderColor: chartColors.tmax.border,
+              backgroundColor: chartColors.tmax.background,
+              borderWidth: 1,
               tension: 0.1,
-              pointRadius: 4,
+              pointRadius: 0,
             },
           ]
         : []),
-
-      // Only show prediction trend after user has initiated a simulation
-      ...(userInitiated
+      ...(showTmin
         ? [
             {
-              label: "Prediction Trend",
-              data:
-                data.length > 0 && predictionLine.years.length > 0
-                  ? [
-                      // Add nulls up to the second-to-last historical data point
-                      ...Array(
-                        Math.max(
-                          0,
-                          data.filter((_, index) => index % 10 === 0).length - 1
-                        )
-                      ).fill(null),
-                      // Last historical data point
-                      data.length > 0
-                        ? data[data.length - 1].five_year_smooth
-                        : null,
-                      // Future prediction points
-                      ...predictionLine.temps.slice(1),
-                    ]
-                  : [],
-              borderColor: isDarkTheme
-                ? chartColors.prediction.border // Keep yellow in dark theme
-                : "hsl(25, 90%, 55%)", // Orange for light theme
-              backgroundColor: isDarkTheme
-                ? chartColors.prediction.background // Keep yellow in dark theme
-                : "hsla(25, 90%, 55%, 0.3)", // Orange for light theme
-              borderDash: [5, 5],
+              label: "Minimum Temperature (Tmin)",
+              data: toPoints(
+                years,
+                extremesData.map((d) => d.tmin!)
+              ),
+              borderColor: chartColors.tmin.border,
+              backgroundColor: chartColors.tmin.background,
+              borderWidth: 1,
               tension: 0.1,
-              pointRadius: 4,
+              pointRadius: 0,
+              // Shade the diurnal range up to the Tmax line
+              fill: showTmax ? ("-1" as const) : false,
             },
           ]
         : []),
-    ],
+    ];
+  }
+
+  /**
+   * Piecewise linear trend through the detected change points
+   */
+  function buildChangePointDatasets() {
+    if (!changePointAnalysis) return [];
+    const { fitted } = changePointAnalysis;
+    return [
+      {
+        label: "Piecewise Trend",
+        data: toPoints(
+          fitted.map((point) => point.year),
+          fitted.map((point) => point.value)
+        ),
+        borderColor: chartColors.changePoint.border,
+        backgroundColor: "transparent",
+        borderWidth: 1.5,
+        tension: 0,
+        pointRadius: 0,
+      },
+    ];
+  }
+
+  /**
+   * Builds the chart for a backtest: the training data, the hidden actuals
+   * and each model's forecast of them
+   */
+  function buildBacktestDatasets(results: BacktestResult[]) {
+    const hiddenYears = results[0].points.map((p) => p.year);
+    return [
+      ...buildHistoryDatasets(data.slice(0, -results[0].holdoutYears)),
+      {
+        label: "Hidden Actuals (5-Year Smooth)",
+        data: toPoints(
+          hiddenYears,
+          results[0].points.map((p) => p.actual)
+        ),
+        borderColor: chartDark
+          ? chartColors.prediction.border
+          : "hsl(25, 90%, 55%)",
+        backgroundColor: chartDark
+          ? chartColors.prediction.background
+          : "hsla(25, 90%, 55%, 0.3)",
+        tension: 0.1,
+        pointRadius: 4,
+      },
+      ...results.map((r) => ({
+        label: `${forecastModels[r.type].label} Forecast`,
+        data: toPoints(
+          hiddenYears,
+          r.points.map((p) => p.predicted)
+        ),
+        borderColor: modelColors[r.type].border,
+        backgroundColor: modelColors[r.type].background,
+        borderDash: [5, 5],
+        tension: 0.1,
+        pointRadius: 3,
+      })),
+    ];
+  }
+
+  // Widest band first so narrower bands are drawn on top of it
+  const intervalBands = [...(predictionLine.bands ?? [])].sort(
+    (a, b) => b.level - a.level
+  );
+
+  const showComparison = comparisonMode && comparison !== null;
+  const regionInterval = regionRun?.intervals.find((i) => i.level === 0.95);
+
+  /**
+   * One dashed forecast path per compared model
+   */
+  function buildComparisonDatasets(runs: ForecastRun[]) {
+    return runs.map((run) => ({
+      label: forecastModels[run.type].label,
+      data: toPoints(run.line.years, run.line.temps),
+      borderColor: modelColors[run.type].border,
+      backgroundColor: modelColors[run.type].background,
+      borderDash: [5, 5],
+      tension: 0.1,
+      pointRadius: 1.5,
+    }));
+  }
+
+  /**
+   * The selected model's prediction line with its shaded intervals: each
+   * upper bound fills down to the lower bound drawn just before it
+   */
+  function buildPredictionDatasets() {
+    return [
+      {
+        label: "Prediction Trend",
+        data: toPoints(predictionLine.years, predictionLine.temps),
+        borderColor: chartDark
+          ? chartColors.prediction.border // Keep yellow in dark theme
+          : "hsl(25, 90%, 55%)", // Orange for light theme
+        backgroundColor: chartDark
+          ? chartColors.prediction.background // Keep yellow in dark theme
+          : "hsla(25, 90%, 55%, 0.3)", // Orange for light theme
+        borderDash: [5, 5],
+        tension: 0.1,
+        pointRadius: 1.5,
+      },
+      ...intervalBands.flatMap((band, index) => [
+        {
+          label: "",
+          data: toPoints(predictionLine.years, band.lower),
+          borderColor: "transparent",
+          backgroundColor: "transparent",
+          pointRadius: 0,
+          tension: 0.1,
+          fill: false,
+        },
+        {
+          label: `${(band.level * 100).toFixed(0)}% Prediction Interval`,
+          data: toPoints(predictionLine.years, band.upper),
+          borderColor: "transparent",
+          backgroundColor: chartDark
+            ? `hsla(60, 80%, 50%, ${0.12 + index * 0.1})`
+            : `hsla(25, 90%, 55%, ${0.12 + index * 0.1})`,
+          pointRadius: 0,
+          tension: 0.1,
+          fill: "-1",
+        },
+      ]),
+    ];
+  }
+
+  // Chart data structure for visualization; x values are calendar years
+  const chartData = {
+    datasets: backtestResults
+      ? buildBacktestDatasets(backtestResults)
+      : [
+          ...(regionComparison && showRegionComparison
+            ? [
+                ...buildHistoryDatasets(data, regionName(region)),
+                ...buildHistoryDatasets(
+                  regionComparison,
+                  regionName(compareRegion),
+                  chartColors.compareRegion,
+                  compareBaselineOffset ?? 0
+                ),
+              ]
+            : buildHistoryDatasets(data)),
+          ...buildExtremesDatasets(),
+          ...buildChangePointDatasets(),
+          ...(userInitiated &&
+          !showComparison &&
+          regionRun &&
+          showRegionComparison
+            ? [
+                {
+                  label: `${regionName(compareRegion)} Prediction`,
+                  data: toPoints(
+                    regionRun.line.years,
+                    regionRun.line.temps,
+                    compareBaselineOffset ?? 0
+                  ),
+                  borderColor: chartColors.compareRegion.border,
+                  backgroundColor: chartColors.compareRegion.background,
+                  borderDash: [5, 5],
+                  tension: 0.1,
+                  pointRadius: 1.5,
+                },
+              ]
+            : []),
+          // Only show predictions after user has initiated a simulation
+          ...(!userInitiated
+            ? []
+            : showComparison
+              ? buildComparisonDatasets(comparison)
+              : buildPredictionDatasets()),
+        ],
   };
 
+  const yAxisRange = calculateYAxisRange(
+    chartData.datasets.flatMap((dataset) => dataset.data.map((p) => p.y))
+  );
+
+  // Years covered by the loaded series, which the title and x-axis follow
+  const dataYears =
+    data.length > 0
+      ? {
+          first: parseInt(data[0].year),
+          last: parseInt(data[data.length - 1].year),
+        }
+      : null;
+
+  /**
+   * Chart heading naming the series on display
+   */
+  function chartTitle() {
+    if (backtestResults) {
+      return `Backtest: Last ${backtestResults[0].holdoutYears} Years Held Out`;
+    }
+    const range = dataYears ? ` (${dataYears.first}-${dataYears.last})` : "";
+    if (useUploaded && uploadedDataset) {
+      return `${uploadedDataset.name} Temperature Trends${range}`;
+    }
+    const place = regionComparison
+      ? `${regionName(region)} vs ${regionName(compareRegion)}`
+      : regionName(region);
+    if (selectedIndicator.key !== "mean") {
+      return `${place} ${selectedIndicator.label}${range}`;
+    }
+    const series = selectedSeason ? ` ${selectedSeason.label}` : "";
+    return `${place}${series} Temperature Trends${range}`;
+  }
+
+  const yAxisLabel =
+    selectedIndicator.key === "mean" ? "Temperature" : selectedIndicator.label;
+
+  // Vertical line at each change point, labelled with its year
+  const changePointLines =
+    changePointAnalysis && !backtestResults
+      ? changePointAnalysis.changePoints.map(({ year }) => ({
+          type: "line" as const,
+          scaleID: "x",
+          value: year,
+          borderColor: chartColors.changePoint.border,
+          borderWidth: 1,
+          borderDash: [4, 4],
+          label: {
+            display: true,
+            content: String(year),
+            position: "start" as const,
+            backgroundColor: chartColors.changePoint.background,
+            font: { size: 11 },
+          },
+        }))
+      : [];
+
   // Chart display options and styling
   const chartOptions = {
     responsive: true,
     maintainAspectRatio: false,
+    // Redraw at once so the chart can be captured straight away
+    ...(printingChart && { animation: false as const }),
     plugins: {
       legend: {
         position: "top" as const,
         labels: {
-          color: isDarkTheme ? "rgba(255, 255, 255, 0.8)" : undefined,
+          color: chartDark ? "rgba(255, 255, 255, 0.8)" : undefined,
+          // Lower interval bounds are unlabelled and kept out of the legend
+          filter: (item: LegendItem) => item.text !== "",
+        },
+      },
+      tooltip: {
+        callbacks: {
+          // Show the year as written, not as a formatted number
+          title: (items: TooltipItem<"line">[]) =>
+            items.length > 0 ? String(items[0].parsed.x) : "",
+        },
+      },
+      annotation: {
+        annotations: changePointLines,
+      },
+      zoom: {
+        zoom: {
+          wheel: { enabled: true },
+          pinch: { enabled: true },
+          mode: "x" as const,
+        },
+        pan: {
+          enabled: true,
+          mode: "x" as const,
+        },
+        limits: {
+          x: { min: "original" as const, max: "original" as const },
         },
       },
       title: {
         display: true,
-        text: "Philippines Temperature Trends (1901-2022)",
+        text: chartTitle(),
         font: {
           size: 16,
         },
-        color: isDarkTheme ? "rgba(255, 255, 255, 0.9)" : undefined,
+        color: chartDark ? "rgba(255, 255, 255, 0.9)" : undefined,
       },
     },
     scales: {
       y: {
-        min: yAxisRange.min,
-        max: yAxisRange.max,
+        // Backtests zoom in on the hold-out period, so let Chart.js fit it
+        min: backtestResults ? undefined : yAxisRange.min,
+        max: backtestResults ? undefined : yAxisRange.max,
         title: {
           display: true,
-          text: "Temperature (°C)",
+          text: showAnomalies
+            ? `${yAxisLabel} Anomaly (${unit.trim()} vs ${baseline.startYear}–${baseline.endYear})`
+            : `${yAxisLabel} (${unit.trim()})`,
           font: {
             size: 14,
           },
-          color: isDarkTheme ? "rgba(255, 255, 255, 0.9)" : undefined,
+          color: chartDark ? "rgba(255, 255, 255, 0.9)" : undefined,
         },
         ticks: {
-          stepSize: 0.5,
+          // Half-degree ticks; day counts are left to Chart.js
+          stepSize: unit === "°C" ? 0.5 : undefined,
           font: {
             size: 14,
           },
-          color: isDarkTheme ? "rgba(255, 255, 255, 0.7)" : undefined,
+          color: chartDark ? "rgba(255, 255, 255, 0.7)" : undefined,
           callback: function (tickValue: number | string) {
-            return typeof tickValue === "number" ? `${tickValue}°C` : tickValue;
+            if (typeof tickValue !== "number") return tickValue;
+            return showAnomalies
+              ? formatAnomaly(tickValue, 1, unit)
+              : `${tickValue}${unit}`;
           },
         },
         grid: {
-          color: isDarkTheme ? "rgba(255, 255, 255, 0.1)" : undefined,
+          color: chartDark ? "rgba(255, 255, 255, 0.1)" : undefined,
         },
       },
       x: {
+        type: "linear" as const,
+        // Backtests start zoomed in on the years around the hold-out
+        min: backtestResults
+          ? backtestResults[0].trainingEndYear -
+            Math.max(backtestResults[0].holdoutYears * 2, 20)
+          : dataYears?.first,
         title: {
           display: true,
           text: "Year",
           font: {
             size: 14,
           },
-          color: isDarkTheme ? "rgba(255, 255, 255, 0.9)" : undefined,
+          color: chartDark ? "rgba(255, 255, 255, 0.9)" : undefined,
         },
         ticks: {
           font: {
             size: 14,
           },
-          color: isDarkTheme ? "rgba(255, 255, 255, 0.7)" : undefined,
+          color: chartDark ? "rgba(255, 255, 255, 0.7)" : undefined,
+          precision: 0,
+          // Plain years, without thousands separators
+          callback: function (tickValue: number | string) {
+            return String(tickValue);
+          },
         },
         grid: {
-          color: isDarkTheme ? "rgba(255, 255, 255, 0.1)" : undefined,
+          color: chartDark ? "rgba(255, 255, 255, 0.1)" : undefined,
         },
       },
     },
   };
 
   /**
-   * Handles the export of simulation data
+   * Downloads the latest run as a JSON document, an Excel workbook or a
+   * long-format CSV
    */
-  function handleExport(
-    data: TemperatureData[],
-    result: any,
-    predictionLine: { years: string[]; temps: number[] }
-  ) {
-    const csv = generateCSV(data, result, predictionLine);
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-
-    link.setAttribute("href", url);
-    link.setAttribute("download", "temperature_simulation_results.csv");
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  async function handleExport() {
+    if (!runSnapshot || !result) return;
+    const doc = buildSimulationExport({
+      ...runSnapshot,
+      result,
+      seriesLabel,
+      unit,
+    });
+    try {
+      const file =
+        exportFormat === "json"
+          ? exportJson(doc)
+          : exportFormat === "xlsx"
+            ? await exportXlsx(doc)
+            : exportLongCsv(doc);
+      downloadBlob(file, `temperature_simulation_results.${exportFormat}`);
+    } catch (error) {
+      console.error("Error exporting results:", error);
+      toast({
+        title: "Export failed",
+        description: "The results could not be exported.",
+        variant: "destructive",
+      });
+      return;
+    }
 
     // Show success toast
     toast({
@@ -807,10 +1423,280 @@ export default function SimulationInterface() {
     });
   }
 
+  /**
+   * Downloads a PDF report of the current run. A print-friendly report of a
+   * dark chart waits for the chart to be redrawn in light colors first.
+   */
+  function handleReport() {
+    if (reportPalette === "print" && isDarkTheme) {
+      setPrintingChart("report");
+    } else {
+      downloadReport();
+    }
+  }
+
+  /**
+   * Downloads the chart as a PNG or SVG image. It is always drawn in light
+   * colors so it reads well on white slides, whatever the theme.
+   */
+  function handleChartImage() {
+    if (isDarkTheme) {
+      setPrintingChart("image");
+    } else {
+      downloadChartImage();
+    }
+  }
+
+  useEffect(() => {
+    if (!printingChart) return;
+    const download =
+      printingChart === "report" ? downloadReport : downloadChartImage;
+    download().finally(() => setPrintingChart(null));
+  }, [printingChart]);
+
+  /**
+   * Footer lines of an exported chart: the models and target year of the run
+   * shown, where its data came from and when it was exported
+   */
+  function chartCaption() {
+    const lines: string[] = [];
+    if (result && !result.error) {
+      const models = result.models
+        .map((model) => forecastModels[model.type].label)
+        .join(", ");
+      lines.push(`Model: ${models} · Target year: ${result.targetYear}`);
+    }
+    const firstYear = data[0]?.year;
+    const lastYear = data[data.length - 1]?.year;
+    const cachedCopy =
+      !useUploaded && cachedAt !== null
+        ? ` (cached ${new Date(cachedAt).toLocaleDateString()})`
+        : "";
+    lines.push(
+      `Data: ${datasetName()}${firstYear ? ` (${firstYear}–${lastYear})` : ""} · ${DATASET_SOURCE_LABELS[dataSource]}${cachedCopy}`
+    );
+    lines.push(`Generated ${new Date().toLocaleString()}`);
+    return lines;
+  }
+
+  async function downloadChartImage() {
+    const chart = chartRef.current;
+    if (!chart) return;
+    try {
+      const image = await exportChartImage(chart, {
+        format: imageFormat,
+        scale: imageScale,
+        background: imageBackground,
+        caption: chartCaption(),
+      });
+      downloadBlob(image, `temperature_chart.${imageFormat}`);
+    } catch (error) {
+      console.error("Error exporting chart:", error);
+      toast({
+        title: "Export failed",
+        description: "The chart image could not be created.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function downloadReport() {
+    const chart = chartRef.current;
+    if (!chart || !result) return;
+    const { models } = result;
+    try {
+      const pdf = await buildPdfReport({
+        title: chartTitle(),
+        generatedAt: new Date(),
+        chart: {
+          image: chart.toBase64Image("image/png", 1),
+          width: chart.width,
+          height: chart.height,
+        },
+        models: models.map(({ type }) => ({
+          label: forecastModels[type].label,
+          summary: forecastModels[type].summary,
+        })),
+        details: describeResult(result, resultFormat),
+        projection: models.length === 1 ? models[0].projection : [],
+        unit,
+        dataset: {
+          name: datasetName(),
+          source: dataSource,
+          firstYear: parseInt(data[0].year),
+          lastYear: parseInt(data[data.length - 1].year),
+          count: data.length,
+        },
+        dark: reportPalette === "theme" && isDarkTheme,
+      });
+      downloadBlob(pdf, "temperature_simulation_report.pdf");
+    } catch (error) {
+      console.error("Error building report:", error);
+      toast({
+        title: "Report failed",
+        description: "The PDF report could not be created.",
+        variant: "destructive",
+      });
+    }
+  }
+
   return (
     <div className="w-full space-y-8">
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="space-y-4">
+          <div className="space-y-3">
+            <div>
+              <label
+                htmlFor="dataSource"
+                className="block text-sm font-medium mb-2"
+              >
+                Data Source
+              </label>
+              <select
+                id="dataSource"
+                value={useUploaded ? "uploaded" : "builtin"}
+                onChange={(e) =>
+                  selectDataSource(e.target.value === "uploaded")
+                }
+                className="w-full p-2.5 bg-background text-foreground border border-input rounded-md"
+              >
+                <option value="builtin">Philippines (built-in)</option>
+                {uploadedDataset && (
+                  <option value="uploaded">
+                    {uploadedDataset.name} (uploaded)
+                  </option>
+                )}
+              </select>
+            </div>
+            <DatasetUpload onLoad={handleUpload} />
+            {!useUploaded && quality && (
+              <DataQualityReport
+                report={quality}
+                handling={flaggedHandling}
+                onHandlingChange={(handling) => {
+                  setFlaggedHandling(handling);
+                  setBacktestResults(null);
+                }}
+              />
+            )}
+            <RegionPicker
+              id="regionSelect"
+              label="Region"
+              value={region}
+              onChange={(value) => {
+                setRegion(value);
+                setBacktestResults(null);
+              }}
+              emptyLabel="Philippines (national)"
+              disabled={useUploaded}
+            />
+            <RegionPicker
+              id="compareRegionSelect"
+              label="Compare With"
+              value={compareRegion}
+              onChange={(value) => {
+                setCompareRegion(value);
+                setBacktestResults(null);
+              }}
+              emptyLabel="No comparison"
+              exclude={region}
+              disabled={useUploaded || selectedSeason !== null}
+            />
+            <div>
+              <label
+                htmlFor="seasonSelect"
+                className="block text-sm font-medium mb-2"
+              >
+                Series
+              </label>
+              <select
+                id="seasonSelect"
+                value={season ?? ""}
+                disabled={useUploaded || selectedIndicator.key !== "mean"}
+                onChange={(e) => {
+                  setSeason(e.target.value || null);
+                  setBacktestResults(null);
+                }}
+                className="w-full p-2.5 bg-background text-foreground border border-input rounded-md disabled:opacity-50"
+              >
+                <option value="">Annual mean</option>
+                {Object.entries(SEASON_SCHEMES).map(([scheme, label]) => (
+                  <optgroup key={scheme} label={label}>
+                    {SEASONS.filter((s) => s.scheme === scheme).map((s) => (
+                      <option key={s.code} value={s.code}>
+                        {s.label} mean
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              {selectedSeason && monthlyFromDb === null && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  No monthly records found; seasons use sample months spread
+                  from the annual means.
+                </p>
+              )}
+            </div>
+            <div>
+              <label
+                htmlFor="indicatorSelect"
+                className="block text-sm font-medium mb-2"
+              >
+                Indicator
+              </label>
+              <select
+                id="indicatorSelect"
+                value={selectedIndicator.key}
+                disabled={useUploaded || selectedSeason !== null}
+                onChange={(e) => {
+                  setIndicatorKey(e.target.value as IndicatorKey);
+                  setBacktestResults(null);
+                }}
+                className="w-full p-2.5 bg-background text-foreground border border-input rounded-md disabled:opacity-50"
+              >
+                {INDICATORS.map((indicator) => (
+                  <option key={indicator.key} value={indicator.key}>
+                    {indicator.label}
+                  </option>
+                ))}
+              </select>
+              {sampleExtremes && selectedIndicator.key !== "mean" && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  No Tmax/Tmin records found; extremes use sample values derived
+                  from the annual means.
+                </p>
+              )}
+            </div>
+            <div>
+              <label
+                htmlFor="gapHandlingSelect"
+                className="block text-sm font-medium mb-2"
+              >
+                Missing Years
+              </label>
+              <select
+                id="gapHandlingSelect"
+                value={gapHandling}
+                onChange={(e) => {
+                  setGapHandling(e.target.value as GapHandling);
+                  setBacktestResults(null);
+                }}
+                className="w-full p-2.5 bg-background text-foreground border border-input rounded-md"
+              >
+                {GAP_HANDLING.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {gapYears.length === 0
+                  ? "No years are missing from this series."
+                  : `${gapYears.length} year${gapYears.length === 1 ? " is" : "s are"} missing from this series${gapHandling === "drop" ? "." : " and filled in."}`}
+              </p>
+            </div>
+          </div>
+
           <div className="mb-6">
             <label
               htmlFor="modelSelect"
@@ -822,28 +1708,186 @@ export default function SimulationInterface() {
               id="modelSelect"
               value={selectedModel}
               onChange={(e) => setSelectedModel(e.target.value as ModelType)}
-              className="w-full p-2.5 bg-background text-foreground border border-input rounded-md"
+              disabled={comparisonMode}
+              className="w-full p-2.5 bg-background text-foreground border border-input rounded-md disabled:opacity-50"
             >
-              <option value="polynomial">Polynomial Regression</option>
-              <option value="linear">Linear Regression</option>
-              <option value="moving-average">5-Year Moving Average</option>
+              {Object.values(forecastModels).map((model) => (
+                <option key={model.type} value={model.type}>
+                  {model.label}
+                </option>
+              ))}
             </select>
+            <label className="flex items-center gap-2 text-sm mt-3">
+              <input
+                type="checkbox"
+                checked={comparisonMode}
+                onChange={(e) => setComparisonMode(e.target.checked)}
+              />
+              Compare models
+            </label>
+            {comparisonMode && (
+              <div className="mt-2 pl-6 space-y-1">
+                {Object.values(forecastModels).map((model) => (
+                  <label
+                    key={model.type}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={comparedModels.includes(model.type)}
+                      onChange={(e) =>
+                        setComparedModels((current) =>
+                          e.target.checked
+                            ? Object.values(forecastModels)
+                                .map((m) => m.type)
+                                .filter(
+                                  (type) =>
+                                    current.includes(type) ||
+                                    type === model.type
+                                )
+                            : current.filter((type) => type !== model.type)
+                        )
+                      }
+                    />
+                    <span
+                      className="inline-block h-3 w-3 rounded-full"
+                      style={{
+                        backgroundColor: modelColors[model.type].border,
+                      }}
+                    />
+                    {model.label}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label
+                htmlFor="startYear"
+                className="block text-sm font-medium mb-2"
+              >
+                From Year
+              </label>
+              <input
+                id="startYear"
+                type="number"
+                className="w-full p-2 border rounded-md bg-background"
+                value={startYear}
+                onChange={(e) => setStartYear(e.target.value)}
+                min={MIN_SIMULATION_YEAR}
+                max="2100"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="yearToPredict"
+                className="block text-sm font-medium mb-2"
+              >
+                To Year
+              </label>
+              <input
+                id="yearToPredict"
+                type="number"
+                className="w-full p-2 border rounded-md bg-background"
+                value={yearToPredict}
+                onChange={(e) => setYearToPredict(e.target.value)}
+                min={MIN_SIMULATION_YEAR}
+                max="2100"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="yearStep"
+                className="block text-sm font-medium mb-2"
+              >
+                Step
+              </label>
+              <select
+                id="yearStep"
+                value={yearStep}
+                onChange={(e) => setYearStep(parseInt(e.target.value))}
+                className="w-full p-2 bg-background text-foreground border border-input rounded-md"
+              >
+                {PROJECTION_STEPS.map((step) => (
+                  <option key={step} value={step}>
+                    {step === 1 ? "Every year" : `Every ${step} years`}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div>
-            <label className="block text-sm font-medium mb-2">
-              Year to Predict
+            <label
+              htmlFor="baselineSelect"
+              className="block text-sm font-medium mb-2"
+            >
+              Climate Baseline
             </label>
-            <input
-              type="number"
-              className="w-full p-2 border rounded-md bg-background"
-              value={yearToPredict}
-              onChange={(e) => setYearToPredict(e.target.value)}
-              min="2024"
-              max="2100"
-            />
+            <select
+              id="baselineSelect"
+              value={CLIMATE_BASELINES.indexOf(baseline)}
+              onChange={(e) =>
+                setBaseline(CLIMATE_BASELINES[parseInt(e.target.value)])
+              }
+              className="w-full p-2.5 bg-background text-foreground border border-input rounded-md"
+            >
+              {CLIMATE_BASELINES.map((option, index) => {
+                const years = baselineYears(data, option).length;
+                return (
+                  <option key={option.label} value={index} disabled={!years}>
+                    {option.label}
+                    {years === 0 ? " — no data" : ""}
+                  </option>
+                );
+              })}
+            </select>
+            <label className="flex items-center gap-2 text-sm mt-3">
+              <input
+                type="checkbox"
+                checked={anomalyMode}
+                disabled={baselineOffset === null}
+                onChange={(e) => setAnomalyMode(e.target.checked)}
+              />
+              Show temperatures as anomalies
+            </label>
+            {baselineOffset !== null &&
+              baselineYears(data, baseline).length <
+                baseline.endYear - baseline.startYear + 1 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  The data covers only {baselineYears(data, baseline).length} of
+                  the {baseline.endYear - baseline.startYear + 1} baseline
+                  years.
+                </p>
+              )}
           </div>
 
+          {(comparisonMode
+            ? comparedModels.includes("polynomial")
+            : selectedModel === "polynomial") && (
+            <PolynomialOptionsPanel
+              value={polynomialOptions}
+              onChange={setPolynomialOptions}
+            />
+          )}
+
+          {(comparisonMode
+            ? comparedModels.includes("arima")
+            : selectedModel === "arima") && (
+            <ArimaOptionsPanel
+              value={arimaOptions}
+              onChange={setArimaOptions}
+            />
+          )}
+
+          {(comparisonMode
+            ? comparedModels.includes("holt")
+            : selectedModel === "holt") && (
+            <HoltOptionsPanel value={holtOptions} onChange={setHoltOptions} />
+          )}
+
           <button
             className="w-full bg-foreground text-background py-2 px-4 rounded-md hover:bg-foreground/90 transition disabled:opacity-50"
             onClick={handleSimulation}
@@ -856,7 +1900,7 @@ export default function SimulationInterface() {
             <div className="mt-4 space-y-4">
               {result.error && (
                 <div className="p-4 bg-red-100 border border-red-300 rounded-md text-red-700">
-                  {result.error}
+                  {SIMULATION_ERRORS[result.error]}
                 </div>
               )}
               <div className="bg-muted rounded-md overflow-hidden">
@@ -864,38 +1908,266 @@ export default function SimulationInterface() {
                   <h3 className="text-lg font-medium">Simulation Results</h3>
                 </div>
                 <div className="p-4 space-y-2">
-                  {result.details.map((detail, index) => (
-                    <p key={index} className="text-sm">
-                      {detail}
+                  {showComparison && !result.error ? (
+                    <ModelComparison
+                      runs={comparison}
+                      baseline={baseline}
+                      unit={unit}
+                    />
+                  ) : (
+                    describeResult(result, resultFormat).map(
+                      (detail, index) => (
+                        <p key={index} className="text-sm">
+                          {detail}
+                        </p>
+                      )
+                    )
+                  )}
+                  {!showComparison && !result.error && regionRun && (
+                    <p className="text-sm">
+                      {regionName(compareRegion)}:{" "}
+                      {regionRun.prediction.toFixed(1)}
+                      {unit}
+                      {regionInterval &&
+                        ` (95% Prediction Interval: ${regionInterval.lower.toFixed(1)}${unit} – ${regionInterval.upper.toFixed(1)}${unit})`}
                     </p>
-                  ))}
+                  )}
+                  {!showComparison &&
+                    !result.error &&
+                    result.models[0].projection.length > 1 && (
+                      <ProjectionTable
+                        rows={result.models[0].projection}
+                        baseline={baseline}
+                        unit={unit}
+                      />
+                    )}
                 </div>
               </div>
 
-              <button
-                className="w-full bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90 transition"
-                onClick={() => handleExport(data, result, predictionLine)}
-              >
-                Export Results
-              </button>
+              <div className="flex gap-2">
+                <select
+                  aria-label="Export format"
+                  value={exportFormat}
+                  onChange={(e) =>
+                    setExportFormat(e.target.value as ExportFormat)
+                  }
+                  className="flex-1 p-2 bg-background text-foreground border border-input rounded-md text-sm"
+                >
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <option key={format} value={format}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className="bg-primary text-primary-foreground py-2 px-4 rounded-md hover:bg-primary/90 transition disabled:opacity-50"
+                  onClick={handleExport}
+                  disabled={!!result.error || !runSnapshot}
+                >
+                  Export Results
+                </button>
+                <button
+                  className="border border-input py-2 px-4 rounded-md hover:bg-muted transition"
+                  onClick={handleCopyLink}
+                >
+                  Copy link
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <select
+                  aria-label="Report colors"
+                  value={reportPalette}
+                  onChange={(e) =>
+                    setReportPalette(e.target.value as "print" | "theme")
+                  }
+                  className="flex-1 p-2 bg-background text-foreground border border-input rounded-md text-sm"
+                >
+                  <option value="print">Print-friendly (light)</option>
+                  <option value="theme">Match current theme</option>
+                </select>
+                <button
+                  className="border border-input py-2 px-4 rounded-md hover:bg-muted transition disabled:opacity-50"
+                  onClick={handleReport}
+                  disabled={!!result.error || !!printingChart}
+                >
+                  PDF report
+                </button>
+              </div>
+            </div>
+          )}
+          <div className="border-t pt-4 space-y-3">
+            <NumberField
+              id="holdoutYears"
+              label="Backtest Hold-out (years)"
+              value={holdoutYears}
+              min={1}
+              max={Math.max(1, data.length - MIN_TRAINING_YEARS)}
+              step={1}
+              onChange={(years) => setHoldoutYears(Math.round(years))}
+            />
+            <button
+              className="w-full border border-input py-2 px-4 rounded-md hover:bg-muted transition disabled:opacity-50"
+              onClick={handleBacktest}
+              disabled={data.length === 0}
+            >
+              Run Backtest
+            </button>
+            {backtestResults && (
+              <BacktestResults
+                results={backtestResults}
+                unit={unit}
+                onClose={() => setBacktestResults(null)}
+              />
+            )}
+          </div>
+          {savedScenarios && (
+            <div className="border-t pt-4">
+              <SavedScenarios
+                draft={scenarioDraft}
+                onLoad={handleLoadScenario}
+              />
             </div>
           )}
         </div>
 
-        <div
-          className="lg:col-span-2 bg-background p-4 rounded-lg border"
-          style={{ height: "500px" }}
-        >
-          {isLoading ? (
-            <div className="h-full flex items-center justify-center">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-foreground"></div>
-            </div>
-          ) : error ? (
-            <div className="h-full flex items-center justify-center text-destructive">
-              <p>{error}</p>
+        <div className="lg:col-span-2 space-y-2">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <DataSourceBadge
+              source={dataSource}
+              cachedAt={useUploaded ? null : cachedAt}
+            />
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={showAnnualMean}
+                onChange={(e) => setShowAnnualMean(e.target.checked)}
+              />
+              Annual mean
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={showFiveYearSmooth}
+                onChange={(e) => setShowFiveYearSmooth(e.target.checked)}
+              />
+              5-year smooth
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={showTmax}
+                disabled={extremeLayersDisabled}
+                onChange={(e) => setShowTmax(e.target.checked)}
+              />
+              Tmax
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={showTmin}
+                disabled={extremeLayersDisabled}
+                onChange={(e) => setShowTmin(e.target.checked)}
+              />
+              Tmin
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={showDecomposition}
+                disabled={useUploaded}
+                onChange={(e) => setShowDecomposition(e.target.checked)}
+              />
+              Seasonal decomposition
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={showChangePoints}
+                onChange={(e) => setShowChangePoints(e.target.checked)}
+              />
+              Change points
+            </label>
+            <button
+              className="ml-auto text-muted-foreground hover:text-foreground"
+              onClick={() => chartRef.current?.resetZoom()}
+            >
+              Reset zoom
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              aria-label="Image format"
+              value={imageFormat}
+              onChange={(e) =>
+                setImageFormat(e.target.value as ChartImageFormat)
+              }
+              className="p-1.5 bg-background text-foreground border border-input rounded-md"
+            >
+              <option value="png">PNG</option>
+              <option value="svg">SVG</option>
+            </select>
+            <select
+              aria-label="Image resolution"
+              value={imageScale}
+              disabled={imageFormat === "svg"}
+              onChange={(e) => setImageScale(parseInt(e.target.value))}
+              className="p-1.5 bg-background text-foreground border border-input rounded-md disabled:opacity-50"
+            >
+              {PNG_SCALES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {scale}× resolution
+                </option>
+              ))}
+            </select>
+            <select
+              aria-label="Image background"
+              value={imageBackground}
+              onChange={(e) =>
+                setImageBackground(e.target.value as ChartBackground)
+              }
+              className="p-1.5 bg-background text-foreground border border-input rounded-md"
+            >
+              <option value="white">White background</option>
+              <option value="transparent">Transparent background</option>
+            </select>
+            <button
+              className="border border-input py-1.5 px-3 rounded-md hover:bg-muted transition disabled:opacity-50"
+              onClick={handleChartImage}
+              disabled={isLoading || !!error || !!printingChart}
+            >
+              Export chart
+            </button>
+          </div>
+          <div
+            className="bg-background p-4 rounded-lg border"
+            style={{ height: "500px" }}
+          >
+            {isLoading ? (
+              <div className="h-full flex items-center justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-foreground"></div>
+              </div>
+            ) : error ? (
+              <div className="h-full flex items-center justify-center text-destructive">
+                <p>{error}</p>
+              </div>
+            ) : (
+              <Line ref={chartRef} data={chartData} options={chartOptions} />
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Scroll or pinch to zoom, drag to pan.
+          </p>
+          {changePointAnalysis && (
+            <ChangePointSummary analysis={changePointAnalysis} unit={unit} />
+          )}
+          <TrendStatistics series={data} unit={unit} />
+          {showDecomposition && !useUploaded && (
+            <div className="bg-background p-4 rounded-lg border">
+              <SeasonalDecomposition
+                records={monthlyData}
+                isDarkTheme={isDarkTheme}
+              />
             </div>
-          ) : (
-            <Line data={chartData} options={chartOptions} />
           )}
         </div>
       </div>
@@ -18,9 +18,13 @@ function FallbackLoading() {
   );
 }
 
-export default function SimulationWrapper() {
+export default function SimulationWrapper({
+  savedScenarios = false,
+}: {
+  savedScenarios?: boolean;
+}) {
   const [isLoaded, setIsLoaded] = useState(false);
 
   // Simply render the component directly without the error detection logic
-  return <SimulationInterface />;
+  return <SimulationInterface savedScenarios={savedScenarios} />;
 }
@@ -0,0 +1,114 @@
+"use client";
+
+import { NumberField } from "@/components/number-field";
+import {
+  MAX_ARIMA_ORDER,
+  type ArimaOptions,
+  type HoltOptions,
+} from "@/lib/forecast";
+
+/**
+ * Orders of the ARIMA(p, d, q) model
+ */
+export function ArimaOptionsPanel({
+  value,
+  onChange,
+}: {
+  value: ArimaOptions;
+  onChange: (value: ArimaOptions) => void;
+}) {
+  return (
+    <details className="border rounded-md p-3 text-sm">
+      <summary className="cursor-pointer font-medium">Advanced options</summary>
+      <div className="mt-3 space-y-2">
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField
+            id="arimaP"
+            label="AR order (p)"
+            value={value.p}
+            min={0}
+            max={MAX_ARIMA_ORDER.p}
+            step={1}
+            onChange={(p) => onChange({ ...value, p: Math.round(p) })}
+          />
+          <NumberField
+            id="arimaD"
+            label="Differencing (d)"
+            value={value.d}
+            min={0}
+            max={MAX_ARIMA_ORDER.d}
+            step={1}
+            onChange={(d) => onChange({ ...value, d: Math.round(d) })}
+          />
+          <NumberField
+            id="arimaQ"
+            label="MA order (q)"
+            value={value.q}
+            min={0}
+            max={MAX_ARIMA_ORDER.q}
+            step={1}
+            onChange={(q) => onChange({ ...value, q: Math.round(q) })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The 5-year smooth is differenced d times; a constant on the
+          differenced series acts as the long-run warming drift.
+        </p>
+      </div>
+    </details>
+  );
+}
+
+/**
+ * Smoothing parameters of Holt's method, each either fixed or optimized
+ */
+export function HoltOptionsPanel({
+  value,
+  onChange,
+}: {
+  value: HoltOptions;
+  onChange: (value: HoltOptions) => void;
+}) {
+  const parameters = [
+    { key: "alpha", label: "Level smoothing (α)" },
+    { key: "beta", label: "Trend smoothing (β)" },
+  ] as const;
+
+  return (
+    <details className="border rounded-md p-3 text-sm">
+      <summary className="cursor-pointer font-medium">Advanced options</summary>
+      <div className="mt-3 space-y-3">
+        {parameters.map(({ key, label }) => (
+          <div key={key} className="space-y-2">
+            <label className="flex items-center gap-2 text-xs font-medium">
+              <input
+                type="checkbox"
+                checked={value[key] === undefined}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    [key]: e.target.checked ? undefined : 0.5,
+                  })
+                }
+              />
+              Optimize {label.toLowerCase()}
+            </label>
+            {value[key] !== undefined && (
+              <NumberField
+                id={`holt-${key}`}
+                label={label}
+                value={value[key]!}
+                min={0.01}
+                max={0.99}
+                step={0.01}
+                onChange={(parameter) =>
+                  onChange({ ...value, [key]: parameter })
+                }
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { NumberField } from "@/components/number-field";
+import {
+  formatAnomaly,
+  mannKendall,
+  MIN_TREND_YEARS,
+  TREND_ALPHA,
+  TREND_VARIABLES,
+  type TemperatureData,
+  type TrendVariable,
+} from "@/lib/forecast";
+import { useState } from "react";
+
+function formatPValue(p: number) {
+  return p < 0.001 ? "< 0.001" : p.toFixed(3);
+}
+
+/**
+ * Mann-Kendall trend test and Sen's slope over a chosen period of the
+ * analyzed series, the figures cited in climate-trend reports
+ */
+export default function TrendStatistics({
+  series,
+  unit = "°C",
+}: {
+  series: TemperatureData[];
+  // Appended to rates, e.g. " days" for a count of days
+  unit?: string;
+}) {
+  const [variable, setVariable] = useState<TrendVariable>("annual_mean");
+  // Period tested; null bounds follow the first or last year of the series
+  const [fromYear, setFromYear] = useState<number | null>(null);
+  const [toYear, setToYear] = useState<number | null>(null);
+
+  if (series.length === 0) return null;
+  const firstYear = parseInt(series[0].year);
+  const lastYear = parseInt(series[series.length - 1].year);
+  const start = fromYear ?? firstYear;
+  const end = toYear ?? lastYear;
+  const test = mannKendall(series, variable, start, end);
+  const confidence = `${((1 - TREND_ALPHA) * 100).toFixed(0)}%`;
+  const rate = (perYear: number) =>
+    `${formatAnomaly(perYear * 10, 2, unit)}/decade`;
+
+  return (
+    <details className="border rounded-md p-3 text-sm">
+      <summary className="cursor-pointer font-medium">Trend statistics</summary>
+      <div className="mt-3 space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label
+              htmlFor="trendVariable"
+              className="block text-xs font-medium mb-1"
+            >
+              Values
+            </label>
+            <select
+              id="trendVariable"
+              value={variable}
+              onChange={(e) => setVariable(e.target.value as TrendVariable)}
+              className="w-full p-1.5 bg-background text-foreground border border-input rounded-md"
+            >
+              {TREND_VARIABLES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <NumberField
+            id="trendFromYear"
+            label="From"
+            value={start}
+            min={firstYear}
+            max={lastYear}
+            step={1}
+            onChange={(year) => setFromYear(Math.round(year))}
+          />
+          <NumberField
+            id="trendToYear"
+            label="To"
+            value={end}
+            min={firstYear}
+            max={lastYear}
+            step={1}
+            onChange={(year) => setToYear(Math.round(year))}
+          />
+        </div>
+
+        {test === null ? (
+          <p className="text-xs text-muted-foreground">
+            Choose a period with at least {MIN_TREND_YEARS} years.
+          </p>
+        ) : (
+          <>
+            <table className="w-full">
+              <tbody>
+                <tr className="border-b">
+                  <td className="py-1">Period</td>
+                  <td className="py-1 text-right">
+                    {test.startYear}–{test.endYear} ({test.n} years)
+                  </td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1">Mann-Kendall S / Kendall&apos;s τ</td>
+                  <td className="py-1 text-right">
+                    {test.s} / {test.tau.toFixed(3)}
+                  </td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1">Z / p-value</td>
+                  <td className="py-1 text-right">
+                    {test.z.toFixed(3)} / {formatPValue(test.pValue)}
+                  </td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1">Autocorrelation correction (n/n*)</td>
+                  <td className="py-1 text-right">
+                    {test.correction.toFixed(3)}
+                  </td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1">Sen&apos;s slope</td>
+                  <td className="py-1 text-right">{rate(test.senSlope)}</td>
+                </tr>
+                <tr className="border-b">
+                  <td className="py-1">{confidence} confidence interval</td>
+                  <td className="py-1 text-right">
+                    {rate(test.senInterval.lower)} to{" "}
+                    {rate(test.senInterval.upper)}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="py-1">Change over the period</td>
+                  <td className="py-1 text-right">
+                    {formatAnomaly(
+                      test.senSlope * (test.endYear - test.startYear),
+                      2,
+                      unit
+                    )}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <p className="text-xs">
+              {test.trend === "none"
+                ? `No significant trend at the ${(TREND_ALPHA * 100).toFixed(0)}% level.`
+                : `Significant ${test.trend} trend at the ${(TREND_ALPHA * 100).toFixed(0)}% level.`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Two-sided Mann-Kendall test with the Hamed-Rao variance correction
+              for autocorrelation. The 5-year smooth is strongly autocorrelated,
+              so its correction is large. Sen&apos;s slope is the median of the
+              slopes between every pair of years.
+            </p>
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
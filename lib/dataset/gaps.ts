@@ -0,0 +1,119 @@
+import type { TemperatureData } from "@/lib/forecast";
+
+export type GapHandling = "drop" | "linear" | "climatology" | "loess";
+
+export const GAP_HANDLING: { value: GapHandling; label: string }[] = [
+  { value: "drop", label: "Drop missing years" },
+  { value: "linear", label: "Linear interpolation" },
+  { value: "climatology", label: "Seasonal climatology" },
+  { value: "loess", label: "LOESS" },
+];
+
+// Years around a gap averaged by the climatology fill: a 30-year normal
+// centered on it
+export const CLIMATOLOGY_WINDOW = 30;
+
+// Share of the recorded years weighted into each LOESS estimate
+export const LOESS_SPAN = 0.3;
+
+type FilledField = "annual_mean" | "five_year_smooth";
+
+/**
+ * Years missing between the first and last year of a series ordered by year
+ */
+export function missingYears(series: TemperatureData[]) {
+  const missing: number[] = [];
+  series.slice(1).forEach((row, i) => {
+    const year = parseInt(row.year);
+    for (let gap = parseInt(series[i].year) + 1; gap < year; gap++) {
+      missing.push(gap);
+    }
+  });
+  return missing;
+}
+
+/**
+ * Local linear regression at x, weighting the nearest span share of the
+ * points with a tricube kernel
+ */
+function loess(xs: number[], ys: number[], x: number, span: number) {
+  const k = Math.min(xs.length, Math.max(3, Math.ceil(span * xs.length)));
+  const distances = xs.map((xi) => Math.abs(xi - x));
+  // Widened slightly so the k-th nearest point keeps some weight
+  const h = [...distances].sort((a, b) => a - b)[k - 1] * 1.001 || 1;
+  const weights = distances.map((d) =>
+    d < h ? Math.pow(1 - Math.pow(d / h, 3), 3) : 0
+  );
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const meanX = weights.reduce((sum, w, i) => sum + w * xs[i], 0) / total;
+  const meanY = weights.reduce((sum, w, i) => sum + w * ys[i], 0) / total;
+  const sxx = weights.reduce(
+    (sum, w, i) => sum + w * Math.pow(xs[i] - meanX, 2),
+    0
+  );
+  const sxy = weights.reduce(
+    (sum, w, i) => sum + w * (xs[i] - meanX) * (ys[i] - meanY),
+    0
+  );
+  return sxx > 0 ? meanY + (sxy / sxx) * (x - meanX) : meanY;
+}
+
+/**
+ * Estimates a field for a missing year from the recorded rows
+ */
+function estimate(
+  rows: TemperatureData[],
+  year: number,
+  field: FilledField,
+  handling: Exclude<GapHandling, "drop">
+) {
+  const years = rows.map((row) => parseInt(row.year));
+  const values = rows.map((row) => row[field]);
+
+  if (handling === "linear") {
+    const after = years.findIndex((y) => y > year);
+    const before = after - 1;
+    const [x0, x1] = [years[before], years[after]];
+    return (
+      values[before] +
+      ((values[after] - values[before]) * (year - x0)) / (x1 - x0)
+    );
+  }
+  if (handling === "climatology") {
+    // The series holds one season (or the whole year) per year, so the mean
+    // of the same season over the surrounding normal period
+    const half = CLIMATOLOGY_WINDOW / 2;
+    const window = values.filter((_, i) => Math.abs(years[i] - year) <= half);
+    const normal = window.length > 0 ? window : values;
+    return normal.reduce((sum, value) => sum + value, 0) / normal.length;
+  }
+  return loess(years, values, year, LOESS_SPAN);
+}
+
+/**
+ * Fills the years missing inside a series with the chosen strategy, marking
+ * the added rows as imputed. Dropping leaves the gaps, and the models are
+ * fitted on the recorded years only.
+ */
+export function fillGaps(
+  series: TemperatureData[],
+  handling: GapHandling
+): TemperatureData[] {
+  const missing = missingYears(series);
+  if (handling === "drop" || missing.length === 0) return series;
+
+  const region = series[0].region;
+  const filled = missing.map(
+    (year): TemperatureData => ({
+      year: String(year),
+      annual_mean: estimate(series, year, "annual_mean", handling),
+      five_year_smooth: estimate(series, year, "five_year_smooth", handling),
+      ...(region !== undefined && { region }),
+      imputed: true,
+    })
+  );
+  return [...series, ...filled].sort(
+    (a, b) => parseInt(a.year) - parseInt(b.year)
+  );
+}
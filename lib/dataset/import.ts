@@ -0,0 +1,212 @@
+import type { TemperatureData } from "@/lib/forecast";
+
+// Fewest years accepted from an upload
+export const MIN_UPLOAD_YEARS = 10;
+
+// Mean annual temperatures above this are taken to be in Fahrenheit
+const FAHRENHEIT_THRESHOLD = 45;
+
+export type TemperatureUnit = "C" | "F";
+
+/**
+ * Which column holds each field, by index. A null smooth column means the
+ * five-year smooth is computed from the annual means.
+ */
+export type ColumnMapping = {
+  year: number;
+  annualMean: number;
+  fiveYearSmooth: number | null;
+};
+
+/**
+ * A problem found while importing. Errors stop the dataset from being
+ * used; warnings are shown but do not.
+ */
+export type ImportIssue = {
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type ImportResult = {
+  series: TemperatureData[];
+  issues: ImportIssue[];
+  unit: TemperatureUnit;
+  // Whether any five-year smooth values were computed
+  smoothComputed: boolean;
+};
+
+/**
+ * Guesses the column mapping from header names, falling back to the first
+ * two columns for year and annual mean
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const find = (pattern: RegExp, exclude?: RegExp) =>
+    headers.findIndex(
+      (header) => pattern.test(header) && !(exclude && exclude.test(header))
+    );
+
+  const year = find(/year|yr/i);
+  const smooth = find(/smooth|5.?y(ea)?r|lowess|running/i);
+  const mean = find(/mean|avg|average|temp|annual/i, /smooth|5.?y(ea)?r/i);
+
+  return {
+    year: year >= 0 ? year : 0,
+    annualMean: mean >= 0 ? mean : year === 1 ? 0 : 1,
+    fiveYearSmooth: smooth >= 0 ? smooth : null,
+  };
+}
+
+/**
+ * Centered five-year moving average; the window shrinks at either end of
+ * the series
+ */
+export function computeFiveYearSmooth(values: number[]) {
+  return values.map((_, i) => {
+    const window = values.slice(Math.max(0, i - 2), i + 3);
+    return window.reduce((sum, value) => sum + value, 0) / window.length;
+  });
+}
+
+/**
+ * Formats row numbers for a message, listing at most five
+ */
+function describeRows(rows: number[]) {
+  if (rows.length === 1) return `row ${rows[0]}`;
+  const shown = rows.slice(0, 5).join(", ");
+  return rows.length > 5
+    ? `rows ${shown} and ${rows.length - 5} more`
+    : `rows ${shown}`;
+}
+
+/**
+ * Converts uploaded rows into a temperature series, validating as it goes
+ * @param rows - Cells of the file, with the header in the first row
+ * @param mapping - Column of each field
+ * @param unit - Unit of the temperatures, or "auto" to detect Fahrenheit
+ */
+export function importSeries(
+  rows: string[][],
+  mapping: ColumnMapping,
+  unit: TemperatureUnit | "auto" = "auto"
+): ImportResult {
+  const issues: ImportIssue[] = [];
+  const nonNumeric: number[] = [];
+  const duplicates: number[] = [];
+  const missingSmooth: number[] = [];
+  const byYear = new Map<number, { annual: number; smooth: number | null }>();
+
+  // Row numbers are 1-based and count the header, as in a spreadsheet
+  rows.slice(1).forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const year = Number(cells[mapping.year]);
+    const annual = Number(cells[mapping.annualMean]);
+    const smoothCell =
+      mapping.fiveYearSmooth === null ? "" : cells[mapping.fiveYearSmooth];
+    const smooth = smoothCell === "" ? null : Number(smoothCell);
+
+    if (
+      cells[mapping.year] === "" ||
+      cells[mapping.annualMean] === "" ||
+      !Number.isInteger(year) ||
+      !isFinite(annual) ||
+      (smooth !== null && !isFinite(smooth))
+    ) {
+      nonNumeric.push(rowNumber);
+      return;
+    }
+    if (byYear.has(year)) {
+      duplicates.push(rowNumber);
+      return;
+    }
+    if (mapping.fiveYearSmooth !== null && smooth === null) {
+      missingSmooth.push(rowNumber);
+    }
+    byYear.set(year, { annual, smooth });
+  });
+
+  if (nonNumeric.length > 0) {
+    issues.push({
+      severity: "error",
+      message: `Missing or non-numeric year or temperature in ${describeRows(nonNumeric)}.`,
+    });
+  }
+  if (duplicates.length > 0) {
+    issues.push({
+      severity: "error",
+      message: `Duplicate year in ${describeRows(duplicates)}; each year may appear only once.`,
+    });
+  }
+
+  const years = Array.from(byYear.keys()).sort((a, b) => a - b);
+  if (years.length < MIN_UPLOAD_YEARS) {
+    issues.push({
+      severity: "error",
+      message: `At least ${MIN_UPLOAD_YEARS} years of data are needed; found ${years.length}.`,
+    });
+  }
+
+  const gaps: string[] = [];
+  years.slice(1).forEach((year, i) => {
+    if (year - years[i] > 1) {
+      gaps.push(
+        year - years[i] === 2
+          ? `${years[i] + 1}`
+          : `${years[i] + 1}–${year - 1}`
+      );
+    }
+  });
+  if (gaps.length > 0) {
+    issues.push({
+      severity: "warning",
+      message: `Missing years: ${gaps.join(", ")}. Choose how they are handled with the Missing Years option.`,
+    });
+  }
+
+  // Tropical annual means are far below 45 °C, so a higher median means °F
+  const annuals = years.map((year) => byYear.get(year)!.annual);
+  const sorted = [...annuals].sort((a, b) => a - b);
+  const median = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+  const detected: TemperatureUnit =
+    unit === "auto" ? (median > FAHRENHEIT_THRESHOLD ? "F" : "C") : unit;
+  const toCelsius = (value: number) =>
+    detected === "F" ? ((value - 32) * 5) / 9 : value;
+  if (unit === "auto" && detected === "F") {
+    issues.push({
+      severity: "warning",
+      message: "Temperatures look like °F and were converted to °C.",
+    });
+  }
+
+  const celsius = annuals.map(toCelsius);
+  if (celsius.some((value) => value < -60 || value > 60)) {
+    issues.push({
+      severity: "error",
+      message:
+        "Some temperatures are outside −60 to 60 °C; check the column mapping and unit.",
+    });
+  }
+
+  const computed = computeFiveYearSmooth(celsius);
+  if (mapping.fiveYearSmooth !== null && missingSmooth.length > 0) {
+    issues.push({
+      severity: "warning",
+      message: `No 5-year smooth in ${describeRows(missingSmooth)}; it was computed from the annual means.`,
+    });
+  }
+
+  const series = years.map((year, i) => {
+    const smooth = byYear.get(year)!.smooth;
+    return {
+      year: String(year),
+      annual_mean: celsius[i],
+      five_year_smooth: smooth === null ? computed[i] : toCelsius(smooth),
+    };
+  });
+
+  return {
+    series,
+    issues,
+    unit: detected,
+    smoothComputed: mapping.fiveYearSmooth === null || missingSmooth.length > 0,
+  };
+}
@@ -0,0 +1,45 @@
+export {
+  computeFiveYearSmooth,
+  guessColumnMapping,
+  importSeries,
+  MIN_UPLOAD_YEARS,
+  type ColumnMapping,
+  type ImportIssue,
+  type ImportResult,
+  type TemperatureUnit,
+} from "./import";
+export {
+  hasIndicator,
+  indicatorSeries,
+  INDICATORS,
+  MEAN_INDICATOR,
+  type Indicator,
+  type IndicatorKey,
+} from "./indicators";
+export {
+  CLIMATOLOGY_WINDOW,
+  fillGaps,
+  GAP_HANDLING,
+  LOESS_SPAN,
+  missingYears,
+  type GapHandling,
+} from "./gaps";
+export { parseDelimited, readTableFile } from "./parse";
+export {
+  aggregateSeason,
+  SEASON_SCHEMES,
+  SEASONS,
+  type Season,
+  type SeasonScheme,
+} from "./seasons";
+export {
+  FLAGGED_POINT_HANDLING,
+  handleFlaggedPoints,
+  OUTLIER_SIGMAS,
+  SMOOTH_TOLERANCE,
+  validateTemperatureRows,
+  type FlaggedPointHandling,
+  type QualityIssue,
+  type QualityIssueKind,
+  type QualityReport,
+} from "./validate";
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { INDICATORS, indicatorSeries } from "@/lib/dataset/indicators";
+
+describe("indicatorSeries", () => {
+  it("keeps the imputed marker of each year", () => {
+    const series = [2000, 2001, 2002].map((year) => ({
+      year: String(year),
+      annual_mean: 27,
+      five_year_smooth: 27,
+      tmax: 32 + (year - 2000),
+      ...(year === 2001 && { imputed: true }),
+    }));
+    const tmax = INDICATORS.find((i) => i.key === "tmax")!;
+    expect(indicatorSeries(series, tmax).map((row) => row.imputed)).toEqual([
+      undefined,
+      true,
+      undefined,
+    ]);
+  });
+});
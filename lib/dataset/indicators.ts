@@ -0,0 +1,113 @@
+import type { TemperatureData } from "@/lib/forecast";
+import { computeFiveYearSmooth } from "./import";
+
+export type IndicatorKey =
+  | "mean"
+  | "tmax"
+  | "tmin"
+  | "diurnal-range"
+  | "hot-days"
+  | "warm-spell";
+
+/**
+ * A yearly quantity that can be charted and forecast in place of the mean
+ * temperature
+ */
+export type Indicator = {
+  key: IndicatorKey;
+  label: string;
+  // Appended to values when displayed, e.g. "°C" or " days"
+  unit: string;
+  // Limits passed to the models' realism check; temperatures use the
+  // historical range instead
+  bounds?: { min: number; max: number };
+  value: (row: TemperatureData) => number | null | undefined;
+};
+
+const DAYS_IN_YEAR = { min: 0, max: 366 };
+
+export const INDICATORS: Indicator[] = [
+  {
+    key: "mean",
+    label: "Mean temperature",
+    unit: "°C",
+    value: (row) => row.annual_mean,
+  },
+  {
+    key: "tmax",
+    label: "Maximum temperature (Tmax)",
+    unit: "°C",
+    value: (row) => row.tmax,
+  },
+  {
+    key: "tmin",
+    label: "Minimum temperature (Tmin)",
+    unit: "°C",
+    value: (row) => row.tmin,
+  },
+  {
+    key: "diurnal-range",
+    label: "Diurnal temperature range",
+    unit: "°C",
+    bounds: { min: 0, max: 30 },
+    value: (row) =>
+      row.tmax == null || row.tmin == null ? null : row.tmax - row.tmin,
+  },
+  {
+    key: "hot-days",
+    label: "Days above 35 °C",
+    unit: " days",
+    bounds: DAYS_IN_YEAR,
+    value: (row) => row.hot_days,
+  },
+  {
+    key: "warm-spell",
+    label: "Warm-spell duration",
+    unit: " days",
+    bounds: DAYS_IN_YEAR,
+    value: (row) => row.warm_spell_days,
+  },
+];
+
+export const MEAN_INDICATOR = INDICATORS[0];
+
+/**
+ * Whether every row of the series has a value for the indicator
+ */
+export function hasIndicator(series: TemperatureData[], indicator: Indicator) {
+  return (
+    series.length > 0 &&
+    series.every((row) => {
+      const value = indicator.value(row);
+      return value != null && isFinite(value);
+    })
+  );
+}
+
+/**
+ * The indicator as a yearly series the models can forecast: its values take
+ * the place of the annual mean and are smoothed the same way. Years without
+ * a value are left out.
+ */
+export function indicatorSeries(
+  series: TemperatureData[],
+  indicator: Indicator
+): TemperatureData[] {
+  if (indicator.key === "mean") return series;
+
+  const rows = series
+    .map((row) => ({ row, value: indicator.value(row) }))
+    .filter(
+      (entry): entry is { row: TemperatureData; value: number } =>
+        entry.value != null && isFinite(entry.value)
+    );
+  const smooth = computeFiveYearSmooth(rows.map((entry) => entry.value));
+
+  return rows.map(({ row, value }, i) => ({
+    year: row.year,
+    annual_mean: value,
+    five_year_smooth: smooth[i],
+    region: row.region,
+    ...(row.imputed && { imputed: true }),
+  }));
+}
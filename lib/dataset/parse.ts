@@ -0,0 +1,63 @@
+/**
+ * Picks the delimiter that splits the first line into the most fields
+ */
+function detectDelimiter(firstLine: string) {
+  const candidates = [",", ";", "\t"];
+  return candidates.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length
+      ? delimiter
+      : best
+  );
+}
+
+/**
+ * Splits delimited text into rows of cells. Handles quoted cells containing
+ * delimiters, doubled quotes and line breaks; blank lines are dropped.
+ */
+export function parseDelimited(text: string): string[][] {
+  // Drop the byte order mark Excel adds to UTF-8 exports
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value !== ""));
+}
+
+/**
+ * Reads an uploaded CSV or TSV file as rows of cells
+ */
+export async function readTableFile(file: File): Promise<string[][]> {
+  return parseDelimited(await file.text());
+}
@@ -0,0 +1,112 @@
+import type { MonthlyTemperatureData, TemperatureData } from "@/lib/forecast";
+import { computeFiveYearSmooth } from "./import";
+
+export type SeasonScheme = "meteorological" | "pagasa";
+
+/**
+ * A group of months averaged into one value per year. Seasons that include
+ * December count it towards the following year, so DJF 2001 is December
+ * 2000 to February 2001.
+ */
+export type Season = {
+  code: string;
+  label: string;
+  scheme: SeasonScheme;
+  months: number[];
+};
+
+export const SEASONS: Season[] = [
+  {
+    code: "DJF",
+    label: "DJF (Dec–Feb)",
+    scheme: "meteorological",
+    months: [12, 1, 2],
+  },
+  {
+    code: "MAM",
+    label: "MAM (Mar–May)",
+    scheme: "meteorological",
+    months: [3, 4, 5],
+  },
+  {
+    code: "JJA",
+    label: "JJA (Jun–Aug)",
+    scheme: "meteorological",
+    months: [6, 7, 8],
+  },
+  {
+    code: "SON",
+    label: "SON (Sep–Nov)",
+    scheme: "meteorological",
+    months: [9, 10, 11],
+  },
+  {
+    code: "cool-dry",
+    label: "Cool dry (Dec–Feb)",
+    scheme: "pagasa",
+    months: [12, 1, 2],
+  },
+  {
+    code: "hot-dry",
+    label: "Hot dry (Mar–May)",
+    scheme: "pagasa",
+    months: [3, 4, 5],
+  },
+  {
+    code: "rainy",
+    label: "Rainy (Jun–Nov)",
+    scheme: "pagasa",
+    months: [6, 7, 8, 9, 10, 11],
+  },
+];
+
+export const SEASON_SCHEMES: Record<SeasonScheme, string> = {
+  meteorological: "Meteorological seasons",
+  pagasa: "PAGASA seasons",
+};
+
+/**
+ * Averages the given months into one value per year. Only years with every
+ * month present are kept; the five-year smooth is computed from the result.
+ */
+function aggregateMonths(
+  monthly: MonthlyTemperatureData[],
+  months: number[]
+): TemperatureData[] {
+  // December leads into the next year's season when the season wraps
+  const wraps = months.includes(12) && months.includes(1);
+  const byYear = new Map<number, Map<number, number>>();
+  monthly.forEach((record) => {
+    if (!months.includes(record.month)) return;
+    const year = parseInt(record.year) + (wraps && record.month === 12 ? 1 : 0);
+    if (!byYear.has(year)) byYear.set(year, new Map());
+    byYear.get(year)!.set(record.month, record.mean);
+  });
+
+  const years = Array.from(byYear.keys())
+    .filter((year) => byYear.get(year)!.size === months.length)
+    .sort((a, b) => a - b);
+  const means = years.map((year) => {
+    const values = Array.from(byYear.get(year)!.values());
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  });
+  const smooth = computeFiveYearSmooth(means);
+
+  return years.map((year, i) => ({
+    year: String(year),
+    annual_mean: means[i],
+    five_year_smooth: smooth[i],
+    region: monthly[0]?.region,
+  }));
+}
+
+/**
+ * One mean per year for a season, shaped like the annual series so every
+ * model can forecast it
+ */
+export function aggregateSeason(
+  monthly: MonthlyTemperatureData[],
+  season: Season
+) {
+  return aggregateMonths(monthly, season.months);
+}
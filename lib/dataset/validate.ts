@@ -0,0 +1,327 @@
+import type { TemperatureData } from "@/lib/forecast";
+import { computeFiveYearSmooth } from "./import";
+
+// Annual means further than this many standard deviations from the median
+// are outliers. The deviation is estimated from the median absolute
+// deviation, so the outliers themselves do not inflate it.
+export const OUTLIER_SIGMAS = 4;
+
+// Largest accepted difference (°C) between a stored 5-year smooth and the
+// centered 5-year mean of the annual means
+export const SMOOTH_TOLERANCE = 0.5;
+
+export type QualityIssueKind =
+  | "missing-years"
+  | "duplicate-years"
+  | "non-numeric"
+  | "outlier"
+  | "year-type"
+  | "smooth-mismatch";
+
+/**
+ * A problem found in the rows of a temperature table. Errors mean rows were
+ * dropped or values replaced; warnings are informational.
+ */
+export type QualityIssue = {
+  kind: QualityIssueKind;
+  severity: "error" | "warning";
+  message: string;
+  // Years affected, where the issue concerns particular years
+  years: number[];
+};
+
+export type QualityReport = {
+  // Rows the table returned
+  rows: number;
+  issues: QualityIssue[];
+  // Years with suspect values: outliers, non-numeric values and smooths that
+  // disagree with the annual means. Models can exclude or interpolate them.
+  flagged: number[];
+};
+
+// What the models do with flagged years
+export type FlaggedPointHandling = "keep" | "exclude" | "interpolate";
+
+export const FLAGGED_POINT_HANDLING: {
+  value: FlaggedPointHandling;
+  label: string;
+}[] = [
+  { value: "keep", label: "Keep flagged points" },
+  { value: "exclude", label: "Exclude flagged points" },
+  { value: "interpolate", label: "Interpolate flagged points" },
+];
+
+const OPTIONAL_FIELDS = [
+  "tmax",
+  "tmin",
+  "hot_days",
+  "warm_spell_days",
+] as const;
+
+/**
+ * Reads a number from a JSON value; numeric strings are accepted, as
+ * Postgres numeric columns may be returned as text
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+/**
+ * Lists years for a message, at most five, with ranges for consecutive
+ * years
+ */
+function describeYears(years: number[]) {
+  const ranges: string[] = [];
+  let start = years[0];
+  years.forEach((year, i) => {
+    if (years[i + 1] === year + 1) return;
+    ranges.push(start === year ? `${year}` : `${start}–${year}`);
+    start = years[i + 1];
+  });
+  return ranges.length > 5
+    ? `${ranges.slice(0, 5).join(", ")} and ${ranges.length - 5} more`
+    : ranges.join(", ");
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Checks rows read from a temperature table against the TemperatureData
+ * schema and for suspect values, and returns the usable rows as a series
+ * ordered by year with a report of what was found. Rows without a valid year
+ * or annual mean and repeated years are dropped; a missing or invalid smooth
+ * is computed from the annual means.
+ */
+export function validateTemperatureRows(rows: unknown[]): {
+  series: TemperatureData[];
+  report: QualityReport;
+} {
+  const issues: QualityIssue[] = [];
+  const byYear = new Map<number, TemperatureData & { smoothValid: boolean }>();
+  const duplicates: number[] = [];
+  const nonNumeric: number[] = [];
+  let invalidYears = 0;
+  let numberYears = 0;
+
+  for (const row of rows) {
+    const record = (
+      typeof row === "object" && row !== null ? row : {}
+    ) as Record<string, unknown>;
+    if (typeof record.year === "number") numberYears++;
+    const year = toNumber(record.year);
+    if (year === null || !Number.isInteger(year)) {
+      invalidYears++;
+      continue;
+    }
+    if (byYear.has(year)) {
+      duplicates.push(year);
+      continue;
+    }
+    const annual = toNumber(record.annual_mean);
+    if (annual === null) {
+      nonNumeric.push(year);
+      continue;
+    }
+    const smooth = toNumber(record.five_year_smooth);
+    if (smooth === null) nonNumeric.push(year);
+
+    const data: TemperatureData & { smoothValid: boolean } = {
+      year: String(year),
+      annual_mean: annual,
+      five_year_smooth: smooth ?? annual,
+      smoothValid: smooth !== null,
+    };
+    if (typeof record.region === "string") data.region = record.region;
+    else if (record.region === null) data.region = null;
+    for (const field of OPTIONAL_FIELDS) {
+      if (field in record) data[field] = toNumber(record[field]);
+    }
+    byYear.set(year, data);
+  }
+
+  if (invalidYears > 0) {
+    issues.push({
+      kind: "non-numeric",
+      severity: "error",
+      message: `${invalidYears} row${invalidYears === 1 ? " has" : "s have"} no valid year and ${invalidYears === 1 ? "was" : "were"} dropped.`,
+      years: [],
+    });
+  }
+  if (nonNumeric.length > 0) {
+    issues.push({
+      kind: "non-numeric",
+      severity: "error",
+      message: `Missing or non-numeric temperature in ${describeYears(nonNumeric)}.`,
+      years: nonNumeric,
+    });
+  }
+  if (duplicates.length > 0) {
+    const years = Array.from(new Set(duplicates)).sort((a, b) => a - b);
+    issues.push({
+      kind: "duplicate-years",
+      severity: "error",
+      message: `Duplicate rows for ${describeYears(years)}; only the first of each was kept.`,
+      years,
+    });
+  }
+  if (numberYears > 0 && numberYears < rows.length - invalidYears) {
+    issues.push({
+      kind: "year-type",
+      severity: "warning",
+      message: `Years are stored as numbers in ${numberYears} row${numberYears === 1 ? "" : "s"} and as text in the rest.`,
+      years: [],
+    });
+  } else if (numberYears > 0) {
+    issues.push({
+      kind: "year-type",
+      severity: "warning",
+      message: "Years are stored as numbers rather than text.",
+      years: [],
+    });
+  }
+
+  const years = Array.from(byYear.keys()).sort((a, b) => a - b);
+  const entries = years.map((year) => byYear.get(year)!);
+
+  const missing: number[] = [];
+  years.slice(1).forEach((year, i) => {
+    for (let gap = years[i] + 1; gap < year; gap++) {
+      if (!nonNumeric.includes(gap)) missing.push(gap);
+    }
+  });
+  if (missing.length > 0) {
+    issues.push({
+      kind: "missing-years",
+      severity: "warning",
+      message: `No rows for ${describeYears(missing)}.`,
+      years: missing,
+    });
+  }
+
+  const annuals = entries.map((entry) => entry.annual_mean);
+  const center = annuals.length > 0 ? median(annuals) : 0;
+  const sigma =
+    annuals.length > 0
+      ? 1.4826 * median(annuals.map((value) => Math.abs(value - center)))
+      : 0;
+  const outliers =
+    sigma > 0
+      ? entries
+          .filter(
+            (entry) =>
+              Math.abs(entry.annual_mean - center) > OUTLIER_SIGMAS * sigma
+          )
+          .map((entry) => parseInt(entry.year))
+      : [];
+  if (outliers.length > 0) {
+    issues.push({
+      kind: "outlier",
+      severity: "warning",
+      message: `Annual mean more than ${OUTLIER_SIGMAS}σ from the median in ${describeYears(outliers)}.`,
+      years: outliers,
+    });
+  }
+
+  // The outliers are left out of the reference smooth, so they do not make
+  // their neighbours' smooths look inconsistent
+  const reference = entries.filter(
+    (entry) => !outliers.includes(parseInt(entry.year))
+  );
+  const computed = new Map(
+    computeFiveYearSmooth(reference.map((entry) => entry.annual_mean)).map(
+      (value, i) => [parseInt(reference[i].year), value]
+    )
+  );
+  const mismatched: number[] = [];
+  for (const entry of entries) {
+    const year = parseInt(entry.year);
+    const expected = computed.get(year);
+    if (!entry.smoothValid) {
+      if (expected !== undefined) entry.five_year_smooth = expected;
+    } else if (
+      expected !== undefined &&
+      Math.abs(entry.five_year_smooth - expected) > SMOOTH_TOLERANCE
+    ) {
+      mismatched.push(year);
+    }
+  }
+  if (mismatched.length > 0) {
+    issues.push({
+      kind: "smooth-mismatch",
+      severity: "warning",
+      message: `5-year smooth differs by more than ${SMOOTH_TOLERANCE} °C from the centered 5-year mean of the annual means in ${describeYears(mismatched)}.`,
+      years: mismatched,
+    });
+  }
+
+  const flagged = Array.from(
+    new Set([...nonNumeric, ...outliers, ...mismatched])
+  ).sort((a, b) => a - b);
+
+  return {
+    series: entries.map(({ smoothValid, ...data }) => data),
+    report: { rows: rows.length, issues, flagged },
+  };
+}
+
+/**
+ * Applies the chosen handling to the flagged years of a series. Excluded
+ * years are dropped; interpolated ones, including years dropped for
+ * non-numeric values, get values on the straight line between the nearest
+ * unflagged years on either side.
+ */
+export function handleFlaggedPoints(
+  series: TemperatureData[],
+  flagged: number[],
+  handling: FlaggedPointHandling
+): TemperatureData[] {
+  if (handling === "keep" || flagged.length === 0) return series;
+  const isFlagged = (row: TemperatureData) =>
+    flagged.includes(parseInt(row.year));
+  const clean = series.filter((row) => !isFlagged(row));
+  if (handling === "exclude" || clean.length === 0) return clean;
+
+  const first = parseInt(series[0].year);
+  const last = parseInt(series[series.length - 1].year);
+  const years = Array.from(
+    new Set([
+      ...series.map((row) => parseInt(row.year)),
+      ...flagged.filter((year) => year > first && year < last),
+    ])
+  ).sort((a, b) => a - b);
+
+  return years.map((year) => {
+    const row = series.find((r) => parseInt(r.year) === year);
+    if (row && !isFlagged(row)) return row;
+    const before = clean.filter((r) => parseInt(r.year) < year).pop();
+    const after = clean.find((r) => parseInt(r.year) > year);
+    const interpolate = (field: "annual_mean" | "five_year_smooth") => {
+      if (!before) return after![field];
+      if (!after) return before[field];
+      const x0 = parseInt(before.year);
+      const x1 = parseInt(after.year);
+      return (
+        before[field] +
+        ((after[field] - before[field]) * (year - x0)) / (x1 - x0)
+      );
+    };
+    return {
+      ...row,
+      year: String(year),
+      annual_mean: interpolate("annual_mean"),
+      five_year_smooth: interpolate("five_year_smooth"),
+      imputed: true,
+    };
+  });
+}
@@ -0,0 +1,155 @@
+import {
+  BasicPlatform,
+  Chart,
+  LineController,
+  type ChartConfiguration,
+  type Plugin,
+} from "chart.js";
+
+Chart.register(LineController);
+
+export type ChartImageFormat = "png" | "svg";
+export type ChartBackground = "white" | "transparent";
+
+export type ChartImageOptions = {
+  format: ChartImageFormat;
+  // Pixel density of PNG exports, e.g. 2 for twice the on-screen size; SVG
+  // is resolution-independent
+  scale: number;
+  background: ChartBackground;
+  // Footer lines describing the chart, e.g. model, data source and date
+  caption: string[];
+};
+
+// Scales offered for PNG exports
+export const PNG_SCALES = [1, 2, 3, 4];
+
+const CAPTION_FONT_SIZE = 12;
+const CAPTION_LINE_HEIGHT = 16;
+const CAPTION_PADDING = 10;
+
+function backgroundPlugin(color: string): Plugin<"line"> {
+  return {
+    id: "exportBackground",
+    beforeDraw(chart) {
+      const { ctx, width, height } = chart;
+      ctx.save();
+      ctx.fillStyle = color;
+      ctx.fillRect(0, 0, width, height);
+      ctx.restore();
+    },
+  };
+}
+
+/**
+ * Draws the caption lines in the space reserved below the chart, under a
+ * thin rule
+ */
+function captionPlugin(lines: string[]): Plugin<"line"> {
+  return {
+    id: "exportCaption",
+    afterDraw(chart) {
+      const { ctx, width, height } = chart;
+      const top =
+        height - CAPTION_PADDING * 2 - lines.length * CAPTION_LINE_HEIGHT;
+      ctx.save();
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.2)";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(CAPTION_PADDING, top);
+      ctx.lineTo(width - CAPTION_PADDING, top);
+      ctx.stroke();
+      ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+      ctx.font = `${CAPTION_FONT_SIZE}px ${Chart.defaults.font.family}`;
+      ctx.textAlign = "left";
+      ctx.textBaseline = "top";
+      lines.forEach((line, i) =>
+        ctx.fillText(
+          line,
+          CAPTION_PADDING,
+          top + CAPTION_PADDING + i * CAPTION_LINE_HEIGHT
+        )
+      );
+      ctx.restore();
+    },
+  };
+}
+
+/**
+ * Redraws a chart off screen, at its current size and zoom, with a caption
+ * footer, and returns it as a PNG or SVG file. The chart's own colors are
+ * kept, so it should be drawn in light colors first.
+ */
+export async function exportChartImage(
+  source: Chart<"line">,
+  { format, scale, background, caption }: ChartImageOptions
+): Promise<Blob> {
+  const width = source.width;
+  const captionHeight =
+    caption.length * CAPTION_LINE_HEIGHT + CAPTION_PADDING * 3;
+  const height = source.height + captionHeight;
+  const options = source.config.options ?? {};
+  const x = source.scales.x;
+
+  const config: ChartConfiguration<"line"> = {
+    type: "line",
+    data: {
+      // Copies, so the off-screen chart does not touch the live data
+      datasets: source.config.data.datasets.map((dataset) => ({
+        ...dataset,
+        data: [...dataset.data],
+      })),
+    },
+    options: {
+      ...(options as ChartConfiguration<"line">["options"]),
+      responsive: false,
+      animation: false,
+      devicePixelRatio: format === "png" ? scale : 1,
+      layout: { padding: { bottom: captionHeight } },
+      scales: {
+        ...options.scales,
+        x: { ...options.scales?.x, min: x.min, max: x.max },
+      },
+      plugins: {
+        ...options.plugins,
+        // Turned off: nothing to pan or zoom off screen, and its touch
+        // handling needs a real canvas element
+        zoom: false as never,
+      },
+    },
+    plugins: [
+      ...(background === "white" ? [backgroundPlugin("#ffffff")] : []),
+      captionPlugin(caption),
+    ],
+    // No DOM events or resizing, which the SVG context cannot handle
+    platform: BasicPlatform,
+  };
+
+  if (format === "svg") {
+    // Loaded on demand so the SVG library stays out of the main bundle
+    const { Context } = await import("svgcanvas");
+    const context = new Context(width, height);
+    // The mock context stands in for a canvas element
+    const canvas = {
+      width,
+      height,
+      style: {},
+      getContext: () => context,
+    } as unknown as HTMLCanvasElement;
+    const chart = new Chart(canvas, config);
+    const svg = context.getSerializedSvg(true);
+    chart.destroy();
+    return new Blob([svg], { type: "image/svg+xml;charset=utf-8" });
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const chart = new Chart(canvas, config);
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png")
+  );
+  chart.destroy();
+  if (!blob) throw new Error("The chart could not be converted to PNG");
+  return blob;
+}
@@ -0,0 +1,199 @@
+import type { ProjectionRow } from "@/lib/forecast";
+import { DATASET_SOURCE_LABELS, type DatasetSource } from "@/lib/scenarios";
+
+/**
+ * Everything shown in a simulation report
+ */
+export type SimulationReport = {
+  title: string;
+  generatedAt: Date;
+  // PNG data URL of the chart and its size in pixels, for the aspect ratio
+  chart: { image: string; width: number; height: number };
+  // Every model the prediction came from, with a description of its method
+  models: { label: string; summary: string }[];
+  // Prediction, intervals, equation and fit statistics, one line each
+  details: string[];
+  projection: ProjectionRow[];
+  unit: string;
+  dataset: {
+    name: string;
+    source: DatasetSource;
+    firstYear: number;
+    lastYear: number;
+    count: number;
+  };
+  // Dark page to match the app's dark theme; light is print-friendly
+  dark: boolean;
+};
+
+type Rgb = [number, number, number];
+
+const PALETTES: Record<
+  "light" | "dark",
+  { background: Rgb | null; text: Rgb; muted: Rgb; rule: Rgb }
+> = {
+  light: {
+    background: null,
+    text: [20, 20, 20],
+    muted: [100, 100, 100],
+    rule: [210, 210, 210],
+  },
+  dark: {
+    background: [10, 10, 10],
+    text: [240, 240, 240],
+    muted: [160, 160, 160],
+    rule: [70, 70, 70],
+  },
+};
+
+const METHODOLOGY = [
+  "Each model is fitted to the 5-year centered smooth of the yearly series, which damps year-to-year variability, and extrapolated to the target years.",
+  "Where a model provides them, prediction intervals come from the spread of its residuals on the training data and widen with distance from the last observed year; they do not cover uncertainty in future emissions.",
+  "Predictions outside a realistic range (the historical extremes, with a margin that grows with forecast distance) are rejected.",
+  "These are statistical extrapolations of the observed trend, not physical climate-model projections.",
+];
+
+// The PDF's built-in fonts only cover Latin-1
+const REPLACEMENTS: Record<string, string> = {
+  "–": "-",
+  "—": "-",
+  "−": "-",
+  "⁴": "^4",
+  "⁵": "^5",
+  "≈": "~",
+  "…": "...",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+};
+
+function latin1(text: string) {
+  return text.replace(/[^\x00-\xff]/g, (char) => REPLACEMENTS[char] ?? "?");
+}
+
+/**
+ * Lays out the report on A4 pages and returns it as a PDF file
+ */
+export async function buildPdfReport(report: SimulationReport): Promise<Blob> {
+  // Loaded on demand so the PDF library stays out of the main bundle
+  const { jsPDF } = await import("jspdf");
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const palette = PALETTES[report.dark ? "dark" : "light"];
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  function paintPage() {
+    if (palette.background) {
+      pdf.setFillColor(...palette.background);
+      pdf.rect(0, 0, pageWidth, pageHeight, "F");
+    }
+  }
+
+  // Starts a new page when the next block would run past the bottom margin
+  function ensureSpace(height: number) {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage();
+      paintPage();
+      y = margin;
+    }
+  }
+
+  function text(
+    content: string,
+    { size = 10, bold = false, muted = false, mono = false, gap = 1.5 } = {}
+  ) {
+    pdf.setFont(mono ? "courier" : "helvetica", bold ? "bold" : "normal");
+    pdf.setFontSize(size);
+    pdf.setTextColor(...(muted ? palette.muted : palette.text));
+    const lines: string[] = pdf.splitTextToSize(latin1(content), contentWidth);
+    const lineHeight = size * 0.45;
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      pdf.text(line, margin, y + lineHeight * 0.8);
+      y += lineHeight;
+    }
+    y += gap;
+  }
+
+  function heading(content: string) {
+    ensureSpace(14);
+    y += 3;
+    pdf.setDrawColor(...palette.rule);
+    pdf.line(margin, y, pageWidth - margin, y);
+    y += 3;
+    text(content, { size: 12, bold: true, gap: 2 });
+  }
+
+  paintPage();
+  text("Temperature Simulation Report", { size: 18, bold: true });
+  text(report.title, { size: 12 });
+  text(`Generated ${report.generatedAt.toLocaleString()}`, {
+    muted: true,
+    gap: 4,
+  });
+
+  const { image, width, height } = report.chart;
+  const chartHeight = (contentWidth * height) / width;
+  ensureSpace(chartHeight);
+  pdf.addImage(image, "PNG", margin, y, contentWidth, chartHeight);
+  y += chartHeight + 2;
+
+  heading(report.models.length > 1 ? "Models" : "Model");
+  for (const { label, summary } of report.models) {
+    text(label, { bold: true, gap: 0.5 });
+    text(summary, { gap: 2.5 });
+  }
+
+  heading("Prediction");
+  for (const detail of report.details) text(detail, { gap: 0.5 });
+
+  if (report.projection.length > 1) {
+    heading("Projection");
+    const hasAnomaly = report.projection.some((row) => row.anomaly !== null);
+    text(
+      ["Year", "Prediction", ...(hasAnomaly ? ["Anomaly"] : []), "95% interval"]
+        .map((cell) => cell.padEnd(14))
+        .join(""),
+      { bold: true, mono: true, gap: 0.5 }
+    );
+    for (const row of report.projection) {
+      const interval = row.intervals.find((i) => i.level === 0.95);
+      const cells = [
+        String(row.year),
+        `${row.prediction.toFixed(2)}${report.unit}`,
+        ...(hasAnomaly
+          ? [
+              row.anomaly === null
+                ? "-"
+                : `${row.anomaly >= 0 ? "+" : ""}${row.anomaly.toFixed(2)}`,
+            ]
+          : []),
+        interval
+          ? `${interval.lower.toFixed(2)} to ${interval.upper.toFixed(2)}`
+          : "-",
+      ];
+      text(cells.map((cell) => cell.padEnd(14)).join(""), {
+        mono: true,
+        gap: 0,
+      });
+    }
+    y += 1.5;
+  }
+
+  heading("Data");
+  const { dataset } = report;
+  text(`Series: ${dataset.name}`, { gap: 0.5 });
+  text(`Source: ${DATASET_SOURCE_LABELS[dataset.source]}`, { gap: 0.5 });
+  text(
+    `Years: ${dataset.firstYear}–${dataset.lastYear} (${dataset.count} years)`
+  );
+
+  heading("Methodology");
+  for (const paragraph of METHODOLOGY) text(paragraph, { gap: 2 });
+
+  return pdf.output("blob");
+}
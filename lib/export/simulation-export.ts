@@ -0,0 +1,389 @@
+import {
+  baselineMean,
+  forecastModels,
+  type FitStats,
+  type ModelType,
+  type PredictionInterval,
+  type ProjectionRow,
+} from "@/lib/forecast";
+import type {
+  ModelResult,
+  ModelSettings,
+  ResultWarning,
+  SimulationResult,
+} from "@/lib/forecast/result";
+import type { DatasetSnapshot, DatasetSource } from "@/lib/scenarios";
+import type { SimulationConfig } from "@/lib/simulation-params";
+
+export type ExportFormat = "json" | "xlsx" | "csv";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "json", label: "JSON (structured)" },
+  { format: "xlsx", label: "Excel workbook" },
+  { format: "csv", label: "CSV (long format)" },
+];
+
+// Identifies export documents; the version changes whenever a field is
+// renamed, removed or changes meaning
+export const EXPORT_SCHEMA = "temperature-simulation";
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/**
+ * One fitted model and its forecast
+ */
+export type ModelExport = {
+  type: ModelType;
+  label: string;
+  // Settings the model was fitted with
+  parameters: ModelSettings;
+  fit: {
+    // Year at which x = 0 in the equation
+    baseYear: number;
+    coefficients: number[];
+    equation: string;
+    // Fitted parameters not captured by the coefficients, e.g. smoothing
+    // weights; null when there are none
+    description: string | null;
+    stats: FitStats;
+    // First and last years of the training data
+    trainingYears: { first: number; last: number };
+  };
+  prediction: {
+    year: number;
+    value: number;
+    // Value before dampening; null for models that do not adjust it
+    raw: number | null;
+    // Value minus the baseline mean; null when the data does not cover the
+    // baseline period
+    anomaly: number | null;
+    // false when the value falls outside the realistic range
+    realistic: boolean;
+    // Empty when the model has no prediction intervals
+    intervals: PredictionInterval[];
+  };
+  // Year-by-year predictions; the target year alone when comparing models
+  projection: ProjectionRow[];
+  warnings: ResultWarning[];
+};
+
+/**
+ * Version 1 of the export document: everything needed to reproduce and
+ * analyse a simulation run. Units of every value are given by dataset.unit.
+ */
+export type SimulationExport = {
+  schema: typeof EXPORT_SCHEMA;
+  version: typeof EXPORT_SCHEMA_VERSION;
+  // ISO 8601 timestamp
+  generatedAt: string;
+  // Settings of the run, as encoded in a shareable link
+  inputs: SimulationConfig;
+  dataset: {
+    name: string;
+    source: DatasetSource;
+    // Series the models were fitted to, e.g. "Annual mean"
+    series: string;
+    unit: string;
+    fingerprint: string;
+    firstYear: number;
+    lastYear: number;
+    count: number;
+    baseline: {
+      startYear: number;
+      endYear: number;
+      // null when the data does not cover the baseline period
+      mean: number | null;
+    };
+  };
+  observations: {
+    year: number;
+    value: number;
+    // 5-year centered smooth, which the models are fitted to
+    smoothed: number;
+    anomaly: number | null;
+    // true when the year was missing or flagged and its values estimated
+    imputed: boolean;
+  }[];
+  models: ModelExport[];
+};
+
+function modelExport(model: ModelResult): ModelExport {
+  return {
+    type: model.type,
+    label: forecastModels[model.type].label,
+    parameters: model.settings,
+    fit: {
+      baseYear: model.baseYear,
+      coefficients: model.coefficients,
+      equation: model.equation,
+      description: model.parameters,
+      stats: {
+        r2: model.r2,
+        adjustedR2: model.adjustedR2,
+        n: model.training.points,
+      },
+      trainingYears: {
+        first: model.training.firstYear,
+        last: model.training.lastYear,
+      },
+    },
+    prediction: {
+      year: model.targetYear,
+      value: model.prediction,
+      raw: model.rawPrediction,
+      anomaly: model.anomaly,
+      realistic: !model.warnings.some(
+        (w) => w.kind === "unrealistic" && w.years.includes(model.targetYear)
+      ),
+      intervals: model.intervals,
+    },
+    projection: model.projection,
+    warnings: model.warnings,
+  };
+}
+
+/**
+ * Builds the export document of a run from the settings and series it was
+ * run with and its result
+ */
+export function buildSimulationExport({
+  config,
+  dataset,
+  result,
+  seriesLabel,
+  unit,
+  generatedAt = new Date(),
+}: {
+  config: SimulationConfig;
+  dataset: DatasetSnapshot;
+  result: SimulationResult;
+  seriesLabel: string;
+  unit: string;
+  generatedAt?: Date;
+}): SimulationExport {
+  const { baseline } = config;
+  const mean = baselineMean(dataset.series, baseline);
+  const anomaly = (value: number) => (mean === null ? null : value - mean);
+
+  return {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    inputs: config,
+    dataset: {
+      name: dataset.name,
+      source: dataset.source,
+      series: seriesLabel,
+      unit,
+      fingerprint: dataset.fingerprint,
+      firstYear: dataset.firstYear,
+      lastYear: dataset.lastYear,
+      count: dataset.series.length,
+      baseline: {
+        startYear: baseline.startYear,
+        endYear: baseline.endYear,
+        mean,
+      },
+    },
+    observations: dataset.series.map((row) => ({
+      year: parseInt(row.year),
+      value: row.annual_mean,
+      smoothed: row.five_year_smooth,
+      anomaly: anomaly(row.annual_mean),
+      imputed: row.imputed === true,
+    })),
+    models: result.models.map(modelExport),
+  };
+}
+
+// Interval levels present in any model, for table columns
+function intervalLevels(doc: SimulationExport) {
+  const levels = new Set<number>();
+  for (const model of doc.models) {
+    for (const { level } of model.prediction.intervals) levels.add(level);
+  }
+  return Array.from(levels).sort((a, b) => a - b);
+}
+
+function percent(level: number) {
+  return `${(level * 100).toFixed(0)}%`;
+}
+
+function intervalCells(intervals: PredictionInterval[], levels: number[]) {
+  return levels.flatMap((level) => {
+    const interval = intervals.find((i) => i.level === level);
+    return interval ? [interval.lower, interval.upper] : [null, null];
+  });
+}
+
+export function exportJson(doc: SimulationExport): Blob {
+  return new Blob([JSON.stringify(doc, null, 2)], {
+    type: "application/json;charset=utf-8",
+  });
+}
+
+/**
+ * Writes the document as a workbook with Summary, Observations, Models and
+ * Projection sheets
+ */
+export async function exportXlsx(doc: SimulationExport): Promise<Blob> {
+  // Loaded on demand so the spreadsheet library stays out of the main bundle
+  const XLSX = await import("xlsx");
+  const { inputs, dataset } = doc;
+  const levels = intervalLevels(doc);
+  const intervalHeaders = levels.flatMap((level) => [
+    `Lower ${percent(level)}`,
+    `Upper ${percent(level)}`,
+  ]);
+
+  const summary = [
+    ["Schema", doc.schema],
+    ["Schema version", doc.version],
+    ["Generated", doc.generatedAt],
+    ["Dataset", dataset.name],
+    ["Source", dataset.source],
+    ["Series", dataset.series],
+    ["Unit", dataset.unit],
+    ["First year", dataset.firstYear],
+    ["Last year", dataset.lastYear],
+    ["Years", dataset.count],
+    ["Fingerprint", dataset.fingerprint],
+    ["Baseline", `${dataset.baseline.startYear}-${dataset.baseline.endYear}`],
+    ["Baseline mean", dataset.baseline.mean],
+    ["Model", inputs.model],
+    ["Compared models", inputs.comparedModels?.join(", ") ?? null],
+    ["Start year", inputs.startYear],
+    ["Target year", inputs.targetYear],
+    ["Step", inputs.step],
+    ["Region", inputs.region],
+    ["Comparison region", inputs.compareRegion],
+    ["Season", inputs.season],
+    ["Indicator", inputs.indicator],
+    ["Anomaly mode", inputs.anomaly],
+  ];
+
+  const observations = [
+    ["Year", "Value", "5-Year Smooth", "Anomaly", "Imputed"],
+    ...doc.observations.map((row) => [
+      row.year,
+      row.value,
+      row.smoothed,
+      row.anomaly,
+      row.imputed,
+    ]),
+  ];
+
+  const models = [
+    [
+      "Model",
+      "Target Year",
+      "Prediction",
+      "Anomaly",
+      "Realistic",
+      ...intervalHeaders,
+      "R²",
+      "Adjusted R²",
+      "Training Points",
+      "Base Year",
+      "Equation",
+      "Description",
+      "Parameters",
+    ],
+    ...doc.models.map((model) => [
+      model.label,
+      model.prediction.year,
+      model.prediction.value,
+      model.prediction.anomaly,
+      model.prediction.realistic,
+      ...intervalCells(model.prediction.intervals, levels),
+      model.fit.stats.r2,
+      model.fit.stats.adjustedR2,
+      model.fit.stats.n,
+      model.fit.baseYear,
+      model.fit.equation,
+      model.fit.description,
+      JSON.stringify(model.parameters),
+    ]),
+  ];
+
+  const projection = [
+    ["Model", "Year", "Prediction", "Anomaly", "Realistic", ...intervalHeaders],
+    ...doc.models.flatMap((model) =>
+      model.projection.map((row) => [
+        model.label,
+        row.year,
+        row.prediction,
+        row.anomaly,
+        row.realistic,
+        ...intervalCells(row.intervals, levels),
+      ])
+    ),
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  const sheets = {
+    Summary: summary,
+    Observations: observations,
+    Models: models,
+    Projection: projection,
+  };
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+  const buffer: ArrayBuffer = XLSX.write(workbook, {
+    type: "array",
+    bookType: "xlsx",
+  });
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+}
+
+// Quotes a CSV cell when it contains a separator, quote or line break
+function csvCell(value: string | number | null) {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes the observations and projections as one tidy table: a row per
+ * year and measured quantity, under a single header. Observed values that
+ * were estimated have kind "imputed".
+ */
+export function exportLongCsv(doc: SimulationExport): Blob {
+  const rows: (string | number | null)[][] = [
+    ["kind", "model", "year", "variable", "value", "unit"],
+  ];
+  const { unit } = doc.dataset;
+
+  for (const row of doc.observations) {
+    const observed = (variable: string, value: number) =>
+      rows.push([
+        row.imputed ? "imputed" : "observed",
+        null,
+        row.year,
+        variable,
+        value,
+        unit,
+      ]);
+    observed("value", row.value);
+    observed("smoothed", row.smoothed);
+    if (row.anomaly !== null) observed("anomaly", row.anomaly);
+  }
+
+  for (const model of doc.models) {
+    for (const row of model.projection) {
+      const forecast = (variable: string, value: number) =>
+        rows.push(["forecast", model.type, row.year, variable, value, unit]);
+      forecast("prediction", row.prediction);
+      if (row.anomaly !== null) forecast("anomaly", row.anomaly);
+      for (const { level, lower, upper } of row.intervals) {
+        forecast(`lower_${Math.round(level * 100)}`, lower);
+        forecast(`upper_${Math.round(level * 100)}`, upper);
+      }
+    }
+  }
+
+  const csv = rows.map((row) => row.map(csvCell).join(",")).join("\n");
+  return new Blob([csv + "\n"], { type: "text/csv;charset=utf-8;" });
+}
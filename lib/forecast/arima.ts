@@ -0,0 +1,243 @@
+import {
+  adjustR2,
+  leastSquares,
+  normalQuantile,
+  rSquared,
+  valueAtYear,
+} from "./stats";
+import type {
+  ArimaOptions,
+  FittedModel,
+  ForecastModel,
+  ForecastOptions,
+  TemperatureData,
+} from "./types";
+
+export const DEFAULT_ARIMA: ArimaOptions = { p: 1, d: 1, q: 0 };
+
+// Largest orders accepted, to keep the fit well conditioned on short series
+export const MAX_ARIMA_ORDER = { p: 5, d: 2, q: 5 };
+
+/**
+ * Differences a series once: w_t = y_t - y_{t-1}
+ */
+function difference(values: number[]) {
+  return values.slice(1).map((value, i) => value - values[i]);
+}
+
+/**
+ * Innovations of an ARMA model on a zero-mean series, with pre-sample
+ * values and errors taken as zero
+ */
+function armaInnovations(z: number[], phi: number[], theta: number[]) {
+  const errors: number[] = [];
+  z.forEach((value, t) => {
+    let expected = 0;
+    phi.forEach((coefficient, i) => {
+      if (t - i - 1 >= 0) expected += coefficient * z[t - i - 1];
+    });
+    theta.forEach((coefficient, j) => {
+      if (t - j - 1 >= 0) expected += coefficient * errors[t - j - 1];
+    });
+    errors.push(value - expected);
+  });
+  return errors;
+}
+
+/**
+ * Fits an ARIMA(p, d, q) model with a constant to the five-year smooth.
+ * The series is differenced d times, then the ARMA(p, q) part is estimated
+ * with the Hannan-Rissanen two-step regression: a long autoregression
+ * supplies estimates of past errors, and the differenced series is
+ * regressed on its own lags and those errors.
+ */
+export function fitArima(
+  series: TemperatureData[],
+  options: ForecastOptions = {}
+): FittedModel {
+  const { p, d, q } = options.arima ?? DEFAULT_ARIMA;
+  if (
+    ![p, d, q].every(Number.isInteger) ||
+    p < 0 ||
+    d < 0 ||
+    q < 0 ||
+    p > MAX_ARIMA_ORDER.p ||
+    d > MAX_ARIMA_ORDER.d ||
+    q > MAX_ARIMA_ORDER.q
+  ) {
+    throw new Error(
+      `ARIMA orders must be whole numbers with p ≤ ${MAX_ARIMA_ORDER.p}, d ≤ ${MAX_ARIMA_ORDER.d} and q ≤ ${MAX_ARIMA_ORDER.q}`
+    );
+  }
+
+  const values = series.map((row) => row.five_year_smooth);
+  const levels = [values];
+  for (let k = 0; k < d; k++) levels.push(difference(levels[k]));
+  const w = levels[d];
+
+  // Long autoregression order for the first step, kept to a quarter of the
+  // series so that regression stays well determined
+  const longOrder =
+    q > 0
+      ? Math.max(
+          p + q,
+          Math.min(
+            Math.ceil(10 * Math.log10(w.length)),
+            Math.floor(w.length / 4)
+          )
+        )
+      : 0;
+  const start = q > 0 ? longOrder + q : p;
+  if (w.length - start <= p + q + 2) {
+    throw new Error(
+      `ARIMA(${p},${d},${q}) needs a longer series than ${series.length} years`
+    );
+  }
+
+  const mean = w.reduce((sum, value) => sum + value, 0) / w.length;
+  const z = w.map((value) => value - mean);
+
+  // Step 1: estimate past errors from a long autoregression
+  const errorEstimates = z.map(() => 0);
+  if (q > 0) {
+    const rows: number[][] = [];
+    const targets: number[] = [];
+    for (let t = longOrder; t < z.length; t++) {
+      rows.push(Array.from({ length: longOrder }, (_, i) => z[t - i - 1]));
+      targets.push(z[t]);
+    }
+    leastSquares(rows, targets).residuals.forEach((residual, i) => {
+      errorEstimates[longOrder + i] = residual;
+    });
+  }
+
+  // Step 2: regress on own lags and lagged error estimates
+  let phi: number[] = [];
+  let theta: number[] = [];
+  if (p + q > 0) {
+    const rows: number[][] = [];
+    const targets: number[] = [];
+    for (let t = start; t < z.length; t++) {
+      rows.push([
+        ...Array.from({ length: p }, (_, i) => z[t - i - 1]),
+        ...Array.from({ length: q }, (_, j) => errorEstimates[t - j - 1]),
+      ]);
+      targets.push(z[t]);
+    }
+    const { coefficients } = leastSquares(rows, targets);
+    phi = coefficients.slice(0, p);
+    theta = coefficients.slice(p);
+  }
+
+  // In-sample one-step errors; errors in the differenced series equal
+  // errors in the original series
+  const innovations = armaInnovations(z, phi, theta);
+  const used = innovations.slice(start);
+  const sigma2 =
+    used.reduce((sum, e) => sum + e * e, 0) / (used.length - p - q - 1);
+  if (!isFinite(sigma2) || ![...phi, ...theta].every(isFinite)) {
+    throw new Error(
+      `ARIMA(${p},${d},${q}) could not be estimated on this series; try lower orders`
+    );
+  }
+  const actual = values.slice(d + start);
+  const fitted = actual.map((value, i) => value - used[i]);
+  const r2 = rSquared(actual, fitted);
+  const n = actual.length;
+
+  // Forecasts of the differenced series, extended on demand
+  const futureZ: number[] = [];
+  const futureErrors: number[] = [];
+  function extendForecast(horizon: number) {
+    const history = z.length;
+    while (futureZ.length < horizon) {
+      const t = history + futureZ.length;
+      const zAt = (i: number) => (i < history ? z[i] : futureZ[i - history]);
+      const eAt = (i: number) =>
+        i < history ? innovations[i] : futureErrors[i - history];
+      let next = 0;
+      phi.forEach((coefficient, i) => (next += coefficient * zAt(t - i - 1)));
+      theta.forEach((coefficient, j) => (next += coefficient * eAt(t - j - 1)));
+      futureZ.push(next);
+      futureErrors.push(0);
+    }
+  }
+
+  /**
+   * Integrates forecasts of the differenced series back to temperatures
+   */
+  function forecastLevels(horizon: number) {
+    extendForecast(horizon);
+    let future = futureZ.slice(0, horizon).map((value) => value + mean);
+    for (let k = d - 1; k >= 0; k--) {
+      let last = levels[k][levels[k].length - 1];
+      future = future.map((change) => (last += change));
+    }
+    return future;
+  }
+
+  // ψ-weights of the integrated process give the forecast error variance
+  const arPolynomial = [1, ...phi.map((c) => -c)];
+  let integrated = arPolynomial;
+  for (let k = 0; k < d; k++) {
+    integrated = [...integrated, 0].map(
+      (c, i) => c - (i > 0 ? integrated[i - 1] : 0)
+    );
+  }
+  const phiStar = integrated.slice(1).map((c) => -c);
+  const psi = [1];
+  function psiWeights(count: number) {
+    while (psi.length < count) {
+      const j = psi.length;
+      let weight = j <= q ? theta[j - 1] : 0;
+      phiStar.forEach((c, i) => {
+        if (j - i - 1 >= 0) weight += c * psi[j - i - 1];
+      });
+      psi.push(weight);
+    }
+    return psi.slice(0, count);
+  }
+
+  const years = series.map((row) => parseInt(row.year));
+  const firstYear = years[0];
+  const lastYear = years[years.length - 1];
+
+  /**
+   * Predicts a calendar year; years inside the series return the observation
+   */
+  function predict(year: number) {
+    const horizon = year - lastYear;
+    if (horizon <= 0) return valueAtYear(years, values, year);
+    return forecastLevels(horizon)[horizon - 1];
+  }
+
+  const format = (list: number[]) => list.map((c) => c.toFixed(4)).join(", ");
+
+  return {
+    type: "arima",
+    baseYear: firstYear,
+    coefficients: [mean, ...phi, ...theta],
+    equation: `ARIMA(${p},${d},${q}) with constant ${mean.toFixed(6)}`,
+    description: `φ = [${format(phi)}], θ = [${format(theta)}], σ = ${Math.sqrt(sigma2).toFixed(4)}°C`,
+    stats: { r2, adjustedR2: adjustR2(r2, n, p + q), n },
+    trainingYears: { first: firstYear, last: lastYear },
+    predict,
+    interval: (year, level) => {
+      const prediction = predict(year);
+      const horizon = year - lastYear;
+      if (horizon <= 0) return { level, lower: prediction, upper: prediction };
+      const variance =
+        sigma2 * psiWeights(horizon).reduce((sum, w) => sum + w * w, 0);
+      const width = normalQuantile(1 - (1 - level) / 2) * Math.sqrt(variance);
+      return { level, lower: prediction - width, upper: prediction + width };
+    },
+  };
+}
+
+export const arimaModel: ForecastModel = {
+  type: "arima",
+  label: "ARIMA Autoregression",
+  summary:
+    "An ARIMA(p, d, q) model of the differenced 5-year smooth, whose constant acts as the long-run drift.",
+  fit: fitArima,
+};
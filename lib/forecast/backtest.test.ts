@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { errorMetrics } from "@/lib/forecast/backtest";
+
+describe("errorMetrics", () => {
+  it("averages the percentage errors", () => {
+    const metrics = errorMetrics([
+      { year: 2020, actual: 20, predicted: 21 },
+      { year: 2021, actual: 25, predicted: 24 },
+    ]);
+    expect(metrics.mae).toBe(1);
+    expect(metrics.bias).toBe(0);
+    expect(metrics.mape).toBeCloseTo(4.5);
+  });
+
+  it("reports MAPE as unavailable when an actual value is zero", () => {
+    const metrics = errorMetrics([
+      { year: 2020, actual: 0, predicted: 1 },
+      { year: 2021, actual: 4, predicted: 3 },
+    ]);
+    expect(metrics.mape).toBeNull();
+    expect(metrics.mae).toBe(1);
+  });
+});
@@ -0,0 +1,98 @@
+import type {
+  ForecastModel,
+  ForecastOptions,
+  ModelType,
+  TemperatureData,
+} from "./types";
+
+export type BacktestPoint = {
+  year: number;
+  actual: number;
+  predicted: number;
+};
+
+export type BacktestResult = {
+  type: ModelType;
+  holdoutYears: number;
+  // Last year the model was allowed to see
+  trainingEndYear: number;
+  points: BacktestPoint[];
+  // Mean absolute error (°C)
+  mae: number;
+  // Root mean squared error (°C)
+  rmse: number;
+  // Mean of predicted minus actual (°C); positive means the model ran warm
+  bias: number;
+  // Mean absolute percentage error (%); null when an actual value is zero,
+  // e.g. a year without hot days, as its percentage error is undefined
+  mape: number | null;
+};
+
+// Fewest years left for training after the hold-out is removed
+export const MIN_TRAINING_YEARS = 10;
+
+/**
+ * Error metrics for a set of predictions against actuals
+ */
+export function errorMetrics(points: BacktestPoint[]) {
+  const errors = points.map((p) => p.predicted - p.actual);
+  const n = errors.length;
+  return {
+    mae: errors.reduce((sum, e) => sum + Math.abs(e), 0) / n,
+    rmse: Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / n),
+    bias: errors.reduce((sum, e) => sum + e, 0) / n,
+    mape: points.some((p) => p.actual === 0)
+      ? null
+      : (points.reduce(
+          (sum, p) => sum + Math.abs((p.predicted - p.actual) / p.actual),
+          0
+        ) /
+          n) *
+        100,
+  };
+}
+
+/**
+ * Hides the last holdoutYears of the series from training, forecasts them
+ * and compares the forecasts with the five-year smooth the models are fitted
+ * on. The year after the last training year is treated as "now" so that
+ * dampening behaves as it would have at the time.
+ */
+export function backtest(
+  series: TemperatureData[],
+  model: ForecastModel,
+  holdoutYears: number,
+  options: ForecastOptions = {}
+): BacktestResult {
+  if (holdoutYears < 1 || series.length - holdoutYears < MIN_TRAINING_YEARS) {
+    throw new Error(
+      `Hold-out must be between 1 and ${series.length - MIN_TRAINING_YEARS} years`
+    );
+  }
+
+  const training = series.slice(0, -holdoutYears);
+  const hidden = series.slice(-holdoutYears);
+  const trainingEndYear = parseInt(training[training.length - 1].year);
+
+  const fitted = model.fit(training, {
+    ...options,
+    referenceYear: trainingEndYear + 1,
+  });
+
+  const points = hidden.map((d) => {
+    const year = parseInt(d.year);
+    return {
+      year,
+      actual: d.five_year_smooth,
+      predicted: fitted.predict(year),
+    };
+  });
+
+  return {
+    type: model.type,
+    holdoutYears,
+    trainingEndYear,
+    points,
+    ...errorMetrics(points),
+  };
+}
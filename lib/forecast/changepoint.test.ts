@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  CHANGE_POINT_ALPHA,
+  detectChangePoints,
+  type TemperatureData,
+} from "@/lib/forecast";
+import { fDistributionCdf } from "@/lib/forecast/stats";
+
+/**
+ * 1950–2019 rising 0.1 °C per decade, bending at bendYear to 0.3 °C per
+ * decade, with a small fixed wobble so the fit is not exact
+ */
+function bentSeries(bendYear: number | null): TemperatureData[] {
+  return Array.from({ length: 70 }, (_, i) => {
+    const year = 1950 + i;
+    const value =
+      26.5 +
+      0.01 * i +
+      (bendYear === null ? 0 : 0.02 * Math.max(0, year - bendYear)) +
+      0.03 * Math.sin(i * 2.1);
+    return {
+      year: String(year),
+      annual_mean: value,
+      five_year_smooth: value,
+    };
+  });
+}
+
+describe("detectChangePoints", () => {
+  it("finds the year a synthetic trend bends", () => {
+    const { changePoints, segments, fitted } = detectChangePoints(
+      bentSeries(1990)
+    );
+    expect(changePoints.map((c) => c.year)).toEqual([1990]);
+    expect(changePoints[0].pValue).toBeLessThan(CHANGE_POINT_ALPHA);
+    expect(segments).toHaveLength(2);
+    expect(segments[0]).toMatchObject({ startYear: 1950, endYear: 1989 });
+    expect(segments[1]).toMatchObject({ startYear: 1990, endYear: 2019 });
+    expect(segments[0].ratePerDecade).toBeCloseTo(0.1, 1);
+    expect(segments[1].ratePerDecade).toBeCloseTo(0.3, 1);
+    expect(fitted).toHaveLength(70);
+  });
+
+  it("finds none in a straight trend", () => {
+    const { changePoints, segments } = detectChangePoints(bentSeries(null));
+    expect(changePoints).toEqual([]);
+    expect(segments).toHaveLength(1);
+    expect(segments[0].ratePerDecade).toBeCloseTo(0.1, 1);
+  });
+});
+
+describe("fDistributionCdf", () => {
+  // 95th percentiles from standard F tables
+  it.each([
+    [2, 10, 4.1028],
+    [2, 20, 3.4928],
+    [2, 60, 3.1504],
+  ])("puts F(%i, %i) = %f at the 95th percentile", (df1, df2, f) => {
+    expect(fDistributionCdf(f, df1, df2)).toBeCloseTo(0.95, 4);
+  });
+});
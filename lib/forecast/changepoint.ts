@@ -0,0 +1,149 @@
+import { fDistributionCdf, leastSquares } from "./stats";
+import type { TemperatureData } from "./types";
+
+// Fewest years in the trend segment on either side of a change point
+export const MIN_SEGMENT_YEARS = 10;
+
+// Most change points looked for in one series
+export const MAX_CHANGE_POINTS = 3;
+
+// Significance level each added change point must reach
+export const CHANGE_POINT_ALPHA = 0.05;
+
+/**
+ * Year at which the trend bends
+ */
+export type ChangePoint = {
+  // First year of the new trend
+  year: number;
+  // p-value of the F test of the fit with this change point against the
+  // fit without it
+  pValue: number;
+};
+
+/**
+ * Stretch of years with a single linear trend
+ */
+export type TrendSegment = {
+  startYear: number;
+  endYear: number;
+  // Rate of change per decade, in the unit of the series
+  ratePerDecade: number;
+};
+
+export type ChangePointAnalysis = {
+  // Ordered by year; empty when no bend is significant
+  changePoints: ChangePoint[];
+  // One more than there are change points
+  segments: TrendSegment[];
+  // Piecewise linear fit, one value per year of the series
+  fitted: { year: number; value: number }[];
+};
+
+/**
+ * Least-squares fit of a continuous line that bends at each hinge year
+ */
+function fitHinges(years: number[], values: number[], hinges: number[]) {
+  const rows = years.map((year) => [
+    1,
+    year - years[0],
+    ...hinges.map((hinge) => Math.max(0, year - hinge)),
+  ]);
+  const fit = leastSquares(rows, values);
+  const rss = fit.residuals.reduce((sum, r) => sum + r * r, 0);
+  return { ...fit, rss };
+}
+
+/**
+ * Whether every segment between the hinges holds enough years
+ */
+function segmentsLongEnough(years: number[], hinges: number[]) {
+  const bounds = [-Infinity, ...hinges, Infinity];
+  return bounds
+    .slice(1)
+    .every(
+      (end, i) =>
+        years.filter((year) => year >= bounds[i] && year < end).length >=
+        MIN_SEGMENT_YEARS
+    );
+}
+
+/**
+ * Finds the years where the trend of the annual values changes, by
+ * piecewise linear regression. Change points are added one at a time, each
+ * at the year that most reduces the residual sum of squares, while the
+ * F test of the added bend (a slope change and its year, so two degrees of
+ * freedom) stays below CHANGE_POINT_ALPHA.
+ */
+export function detectChangePoints(
+  series: TemperatureData[]
+): ChangePointAnalysis {
+  const years = series.map((d) => parseInt(d.year));
+  const values = series.map((d) => d.annual_mean);
+  if (series.length < 2) {
+    return {
+      changePoints: [],
+      segments: [],
+      fitted: years.map((year, i) => ({ year, value: values[i] })),
+    };
+  }
+
+  const changePoints: ChangePoint[] = [];
+  let current = fitHinges(years, values, []);
+
+  while (changePoints.length < MAX_CHANGE_POINTS) {
+    const hinges = changePoints.map((c) => c.year);
+    let best: { year: number; fit: typeof current } | null = null;
+    for (const year of years) {
+      if (hinges.includes(year)) continue;
+      const candidate = [...hinges, year].sort((a, b) => a - b);
+      if (!segmentsLongEnough(years, candidate)) continue;
+      const fit = fitHinges(years, values, candidate);
+      if (!best || fit.rss < best.fit.rss) best = { year, fit };
+    }
+    if (!best) break;
+
+    // Intercept, slope, and a slope change and year per change point
+    const df = years.length - 2 * (changePoints.length + 2);
+    if (df <= 0 || best.fit.rss <= 0) break;
+    const f = (current.rss - best.fit.rss) / 2 / (best.fit.rss / df);
+    const pValue = 1 - fDistributionCdf(f, 2, df);
+    if (pValue >= CHANGE_POINT_ALPHA) break;
+
+    changePoints.push({ year: best.year, pValue });
+    changePoints.sort((a, b) => a.year - b.year);
+    current = fitHinges(
+      years,
+      values,
+      changePoints.map((c) => c.year)
+    );
+  }
+
+  // The slope of each segment adds the slope changes of the bends before it
+  const [, slope, ...bends] = current.coefficients;
+  const starts = [years[0], ...changePoints.map((c) => c.year)];
+  const segments = starts.map((startYear, i) => ({
+    startYear,
+    endYear:
+      i + 1 < starts.length ? starts[i + 1] - 1 : years[years.length - 1],
+    ratePerDecade:
+      10 * bends.slice(0, i).reduce((sum, change) => sum + change, slope),
+  }));
+
+  return {
+    changePoints,
+    segments,
+    fitted: years.map((year, i) => ({ year, value: current.fitted[i] })),
+  };
+}
+
+/**
+ * First year of the trend after the last change point, or null when the
+ * series has none
+ */
+export function lastChangePointYear(series: TemperatureData[]) {
+  const { changePoints } = detectChangePoints(series);
+  return changePoints.length > 0
+    ? changePoints[changePoints.length - 1].year
+    : null;
+}
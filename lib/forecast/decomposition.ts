@@ -0,0 +1,68 @@
+import type { MonthlyTemperatureData } from "./types";
+
+export type SeasonalDecomposition = {
+  // Decimal year at the middle of each month, for plotting
+  x: number[];
+  observed: number[];
+  // Centered 12-month moving average; null for the first and last six months
+  trend: (number | null)[];
+  // Repeating monthly effect, summing to zero over a year
+  seasonal: number[];
+  residual: (number | null)[];
+  // Seasonal effect of each month, January first
+  monthlyEffects: number[];
+};
+
+/**
+ * Classical additive decomposition of a monthly series into trend, seasonal
+ * and residual parts. Records are taken to be consecutive months once sorted.
+ */
+export function decomposeMonthly(
+  records: MonthlyTemperatureData[]
+): SeasonalDecomposition {
+  if (records.length < 24) {
+    throw new Error("Seasonal decomposition needs at least 24 months of data");
+  }
+  const sorted = [...records].sort(
+    (a, b) => parseInt(a.year) - parseInt(b.year) || a.month - b.month
+  );
+  const observed = sorted.map((record) => record.mean);
+  const n = observed.length;
+
+  // 2×12 moving average: half weight on the months six either side
+  const trend = observed.map((_, t) => {
+    if (t < 6 || t + 6 >= n) return null;
+    let sum = 0.5 * (observed[t - 6] + observed[t + 6]);
+    for (let k = t - 5; k <= t + 5; k++) sum += observed[k];
+    return sum / 12;
+  });
+
+  const totals = Array(12).fill(0);
+  const counts = Array(12).fill(0);
+  sorted.forEach((record, t) => {
+    const level = trend[t];
+    if (level === null) return;
+    totals[record.month - 1] += record.mean - level;
+    counts[record.month - 1]++;
+  });
+  const raw = totals.map((total, i) => (counts[i] > 0 ? total / counts[i] : 0));
+  const center = raw.reduce((sum, value) => sum + value, 0) / 12;
+  const monthlyEffects = raw.map((value) => value - center);
+
+  const seasonal = sorted.map((record) => monthlyEffects[record.month - 1]);
+  const residual = observed.map((value, t) => {
+    const level = trend[t];
+    return level === null ? null : value - level - seasonal[t];
+  });
+
+  return {
+    x: sorted.map(
+      (record) => parseInt(record.year) + (record.month - 0.5) / 12
+    ),
+    observed,
+    trend,
+    seasonal,
+    residual,
+    monthlyEffects,
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { forecastModels, type ModelType } from "@/lib/forecast";
+import { mockTemperatureData } from "@/utils/temp-data";
+
+// Dampening depends on the current year, so it is fixed for the pinned values
+const options = { referenceYear: 2024 };
+
+/**
+ * Outputs of the baseline models for the mock dataset, as produced before
+ * the models were moved out of the simulation component
+ */
+const pinned: {
+  type: ModelType;
+  prediction: number;
+  equation: string;
+  r2: number;
+}[] = [
+  {
+    type: "polynomial",
+    prediction: 29.38372123671968,
+    equation: "y = -5.906861e-4x² + 0.077975x + 27.3278",
+    r2: 0.9988596914,
+  },
+  {
+    type: "linear",
+    prediction: 30.8961898399,
+    equation: "y = 0.061380x + 27.2134",
+    r2: 0.9947654167,
+  },
+  {
+    type: "moving-average",
+    prediction: 30.4,
+    equation: "y = 29.0000 + 0.050000(year - 2022)",
+    r2: 1,
+  },
+];
+
+describe("baseline models on the mock dataset", () => {
+  it.each(pinned)(
+    "$type forecasts 2050",
+    ({ type, prediction, equation, r2 }) => {
+      const model = forecastModels[type].fit(mockTemperatureData, options);
+      expect(model.predict(2050)).toBeCloseTo(prediction, 8);
+      expect(model.equation).toBe(equation);
+      expect(model.stats.r2).toBeCloseTo(r2, 8);
+    }
+  );
+});
+
+describe("in-sample predictions", () => {
+  // Every fifth year dropped, as the "drop" gap handling leaves the series
+  const gapped = mockTemperatureData.filter((_, i) => i % 5 !== 3);
+
+  it.each(["holt", "arima"] as const)(
+    "%s returns the recorded value of each year",
+    (type) => {
+      const model = forecastModels[type].fit(gapped, options);
+      for (const row of gapped) {
+        expect(model.predict(parseInt(row.year))).toBe(row.five_year_smooth);
+      }
+    }
+  );
+});
+
+describe("Holt's method", () => {
+  it("needs five years for its prediction intervals", () => {
+    const series = mockTemperatureData.slice(0, 5);
+    expect(() => forecastModels.holt.fit(series.slice(0, 4))).toThrow();
+    const model = forecastModels.holt.fit(series, options);
+    const interval = model.interval!(2030, 0.95);
+    expect(isFinite(interval.lower)).toBe(true);
+    expect(isFinite(interval.upper)).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import { adjustR2, normalQuantile, rSquared, valueAtYear } from "./stats";
+import type {
+  FittedModel,
+  ForecastModel,
+  ForecastOptions,
+  TemperatureData,
+} from "./types";
+
+/**
+ * Runs Holt's linear method over the series
+ * @returns Final level and trend, and the one-step-ahead errors
+ */
+function holtFilter(values: number[], alpha: number, beta: number) {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  const errors: number[] = [];
+
+  for (let t = 1; t < values.length; t++) {
+    const forecast = level + trend;
+    errors.push(values[t] - forecast);
+    const previousLevel = level;
+    level = alpha * values[t] + (1 - alpha) * forecast;
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+  }
+
+  return { level, trend, errors };
+}
+
+function sumOfSquares(values: number[]) {
+  return values.reduce((sum, value) => sum + value * value, 0);
+}
+
+/**
+ * Finds the smoothing parameters that minimize the one-step-ahead squared
+ * error: a coarse grid, then a finer grid around the best point. Fixed
+ * parameters are left as given.
+ */
+function optimizeParameters(
+  values: number[],
+  fixedAlpha?: number,
+  fixedBeta?: number
+) {
+  let best = {
+    alpha: fixedAlpha ?? 0.5,
+    beta: fixedBeta ?? 0.5,
+    sse: Infinity,
+  };
+
+  function search(center: { alpha: number; beta: number }, step: number) {
+    const candidates = (fixed: number | undefined, middle: number) =>
+      fixed !== undefined
+        ? [fixed]
+        : Array.from({ length: 19 }, (_, i) => middle + (i - 9) * step).filter(
+            (value) => value > 0 && value < 1
+          );
+
+    for (const alpha of candidates(fixedAlpha, center.alpha)) {
+      for (const beta of candidates(fixedBeta, center.beta)) {
+        const sse = sumOfSquares(holtFilter(values, alpha, beta).errors);
+        if (sse < best.sse) best = { alpha, beta, sse };
+      }
+    }
+  }
+
+  search({ alpha: 0.5, beta: 0.5 }, 0.05);
+  search(best, 0.005);
+  return best;
+}
+
+/**
+ * Fits Holt's linear exponential smoothing to the five-year smooth. The
+ * forecast h years ahead is the final level plus h times the final trend.
+ */
+export function fitHolt(
+  series: TemperatureData[],
+  options: ForecastOptions = {}
+): FittedModel {
+  // The residual variance leaves out the first error and has two
+  // parameters, so fewer years leave no degrees of freedom for the intervals
+  if (series.length < 5) {
+    throw new Error("Holt's method needs at least 5 years of data");
+  }
+  const { alpha: fixedAlpha, beta: fixedBeta } = options.holt ?? {};
+  for (const value of [fixedAlpha, fixedBeta]) {
+    if (value !== undefined && !(value > 0 && value < 1)) {
+      throw new Error("Smoothing parameters must be between 0 and 1");
+    }
+  }
+
+  const values = series.map((row) => row.five_year_smooth);
+  const { alpha, beta } = optimizeParameters(values, fixedAlpha, fixedBeta);
+  const { level, trend, errors } = holtFilter(values, alpha, beta);
+
+  // The first error only reflects the initial trend, so it is left out
+  const used = errors.slice(1);
+  const sigma2 = sumOfSquares(used) / (used.length - 2);
+  const actual = values.slice(2);
+  const r2 = rSquared(
+    actual,
+    actual.map((value, i) => value - used[i])
+  );
+  const n = actual.length;
+
+  const years = series.map((row) => parseInt(row.year));
+  const firstYear = years[0];
+  const lastYear = years[years.length - 1];
+
+  function predict(year: number) {
+    const horizon = year - lastYear;
+    if (horizon <= 0) return valueAtYear(years, values, year);
+    return level + horizon * trend;
+  }
+
+  return {
+    type: "holt",
+    baseYear: lastYear,
+    coefficients: [level, trend, alpha, beta],
+    equation: `y = ${level.toFixed(4)} + ${trend.toFixed(6)}h (h = years after ${lastYear})`,
+    description: `α = ${alpha.toFixed(3)}${fixedAlpha === undefined ? " (optimized)" : ""}, β = ${beta.toFixed(3)}${fixedBeta === undefined ? " (optimized)" : ""}`,
+    stats: { r2, adjustedR2: adjustR2(r2, n, 2), n },
+    trainingYears: { first: firstYear, last: lastYear },
+    predict,
+    // Forecast variance of the equivalent ETS(A,A,N) model
+    interval: (year, intervalLevel) => {
+      const prediction = predict(year);
+      const horizon = year - lastYear;
+      let multiplier = 1;
+      for (let j = 1; j < horizon; j++) {
+        multiplier += Math.pow(alpha + alpha * beta * j, 2);
+      }
+      const width =
+        horizon <= 0
+          ? 0
+          : normalQuantile(1 - (1 - intervalLevel) / 2) *
+            Math.sqrt(sigma2 * multiplier);
+      return {
+        level: intervalLevel,
+        lower: prediction - width,
+        upper: prediction + width,
+      };
+    },
+  };
+}
+
+export const holtModel: ForecastModel = {
+  type: "holt",
+  label: "Holt's Exponential Smoothing",
+  summary:
+    "Holt's linear method: exponentially weighted estimates of the level and trend of the 5-year smooth.",
+  fit: fitHolt,
+};
@@ -0,0 +1,247 @@
+import { arimaModel } from "./arima";
+import { holtModel } from "./holt";
+import { linearModel } from "./linear";
+import { movingAverageModel } from "./moving-average";
+import { polynomialModel } from "./polynomial";
+import { baselineMean } from "./projection";
+import { exponentialModel, logarithmicModel, powerModel } from "./transformed";
+import type {
+  FittedModel,
+  ForecastModel,
+  ForecastOptions,
+  ModelType,
+  PredictionInterval,
+  PredictionLine,
+  ProjectionRow,
+  TemperatureData,
+} from "./types";
+
+export * from "./types";
+export { DEFAULT_ARIMA, fitArima, MAX_ARIMA_ORDER } from "./arima";
+export {
+  backtest,
+  errorMetrics,
+  MIN_TRAINING_YEARS,
+  type BacktestPoint,
+  type BacktestResult,
+} from "./backtest";
+export {
+  CHANGE_POINT_ALPHA,
+  detectChangePoints,
+  lastChangePointYear,
+  MAX_CHANGE_POINTS,
+  MIN_SEGMENT_YEARS,
+  type ChangePoint,
+  type ChangePointAnalysis,
+  type TrendSegment,
+} from "./changepoint";
+export { decomposeMonthly, type SeasonalDecomposition } from "./decomposition";
+export { fitHolt } from "./holt";
+export { fitLinear } from "./linear";
+export { fitMovingAverage } from "./moving-average";
+export {
+  DEFAULT_DAMPENING,
+  DEFAULT_POLYNOMIAL_ORDER,
+  DEFAULT_TRAINING_WINDOW,
+  fitPolynomial,
+} from "./polynomial";
+export {
+  baselineMean,
+  baselineYears,
+  CLIMATE_BASELINES,
+  DEFAULT_BASELINE,
+  formatAnomaly,
+  PROJECTION_STEPS,
+  projectionYears,
+} from "./projection";
+export {
+  mannKendall,
+  MIN_TREND_YEARS,
+  TREND_ALPHA,
+  TREND_VARIABLES,
+  type TrendTest,
+  type TrendVariable,
+} from "./trend-test";
+
+// Prediction interval levels reported alongside every forecast
+export const PREDICTION_LEVELS = [0.8, 0.95];
+
+export const forecastModels: Record<ModelType, ForecastModel> = {
+  polynomial: polynomialModel,
+  linear: linearModel,
+  "moving-average": movingAverageModel,
+  exponential: exponentialModel,
+  logarithmic: logarithmicModel,
+  power: powerModel,
+  arima: arimaModel,
+  holt: holtModel,
+};
+
+/**
+ * Whether a string names a forecast model. Keys inherited from
+ * Object.prototype, such as "constructor", do not count.
+ */
+export function isModelType(value: string): value is ModelType {
+  return Object.prototype.hasOwnProperty.call(forecastModels, value);
+}
+
+/**
+ * Generates points for the prediction trend line, one per year from the last
+ * historical data point to the target year
+ * @param series - Historical data the model was fitted on
+ * @param model - Fitted model used for the intermediate points
+ * @param targetYear - Final year of the line
+ * @param predictionTemp - Prediction at the target year, also used when an
+ * intermediate prediction is not a number
+ * @param levels - Prediction interval levels to attach as bands, when the
+ * model provides intervals
+ */
+export function generatePredictionLine(
+  series: TemperatureData[],
+  model: FittedModel,
+  targetYear: number,
+  predictionTemp: number = model.predict(targetYear),
+  levels: number[] = PREDICTION_LEVELS
+): PredictionLine {
+  if (series.length === 0) {
+    return { years: [], temps: [] };
+  }
+
+  const lastDataYear = parseInt(series[series.length - 1].year);
+  const lastTemp = series[series.length - 1].five_year_smooth;
+  const years: number[] = [lastDataYear];
+  const temps: number[] = [lastTemp];
+
+  for (let year = lastDataYear + 1; year < targetYear; year++) {
+    const temp = model.predict(year);
+    years.push(year);
+    temps.push(isNaN(temp) ? predictionTemp : temp);
+  }
+
+  // Ensure the final prediction point is included
+  if (years[years.length - 1] !== targetYear) {
+    years.push(targetYear);
+    temps.push(predictionTemp);
+  }
+
+  const interval = model.interval;
+  const bands = interval
+    ? levels.map((level) => {
+        // The line starts at an observed value, so the band starts with no width
+        const bounds = years
+          .slice(1)
+          .map((year) => interval(year, level))
+          .map((bound) =>
+            isNaN(bound.lower) ? interval(targetYear, level) : bound
+          );
+        return {
+          level,
+          lower: [lastTemp, ...bounds.map((bound) => bound.lower)],
+          upper: [lastTemp, ...bounds.map((bound) => bound.upper)],
+        };
+      })
+    : undefined;
+
+  return { years: years.map(String), temps, bands };
+}
+
+/**
+ * Range of temperatures a prediction may fall in to be considered realistic.
+ * The margin around the historical extremes widens with forecast distance.
+ * @param bounds - Physical limits returned as-is instead, for quantities that
+ * are not temperatures
+ */
+export function realisticRange(
+  series: TemperatureData[],
+  targetYear: number,
+  referenceYear: number = new Date().getFullYear(),
+  bounds?: { min: number; max: number }
+) {
+  if (bounds) return bounds;
+
+  const maxTemp = Math.max(...series.map((d) => d.annual_mean));
+  const minTemp = Math.min(...series.map((d) => d.annual_mean));
+  const baseMargin = 1.5;
+
+  // Increases by up to 3°C based on prediction distance
+  const marginIncrease = Math.min(3, (targetYear - referenceYear) / 20);
+  const margin = baseMargin + marginIncrease;
+
+  return { min: minTemp - margin, max: maxTemp + margin };
+}
+
+/**
+ * Result of fitting one model and forecasting a target year with it
+ */
+export type ForecastRun = {
+  type: ModelType;
+  targetYear: number;
+  model: FittedModel;
+  prediction: number;
+  // One per PREDICTION_LEVELS entry; empty when the model has no intervals
+  intervals: PredictionInterval[];
+  line: PredictionLine;
+  // Whether the prediction falls inside realisticRange
+  realistic: boolean;
+  // Year-by-year predictions for the requested years
+  projection: ProjectionRow[];
+};
+
+/**
+ * Fits a model to the series and forecasts the target year, with prediction
+ * intervals and the prediction line for plotting
+ * @param years - Years to include in the projection table; defaults to the
+ * target year alone
+ */
+export function runForecast(
+  series: TemperatureData[],
+  type: ModelType,
+  targetYear: number,
+  options: ForecastOptions = {},
+  years: number[] = [targetYear]
+): ForecastRun {
+  const model = forecastModels[type].fit(series, options);
+  const interval = model.interval;
+  const baseline = baselineMean(series, options.baseline);
+
+  const projection = years.map((year): ProjectionRow => {
+    const prediction = model.predict(year);
+    const allowed = realisticRange(
+      series,
+      year,
+      options.referenceYear,
+      options.bounds
+    );
+    return {
+      year,
+      prediction,
+      anomaly: baseline === null ? null : prediction - baseline,
+      intervals: interval
+        ? PREDICTION_LEVELS.map((level) => interval(year, level))
+        : [],
+      realistic: prediction >= allowed.min && prediction <= allowed.max,
+    };
+  });
+
+  const prediction = model.predict(targetYear);
+  const intervals = interval
+    ? PREDICTION_LEVELS.map((level) => interval(targetYear, level))
+    : [];
+  const allowed = realisticRange(
+    series,
+    targetYear,
+    options.referenceYear,
+    options.bounds
+  );
+
+  return {
+    type,
+    targetYear,
+    model,
+    prediction,
+    intervals,
+    line: generatePredictionLine(series, model, targetYear, prediction),
+    realistic: prediction >= allowed.min && prediction <= allowed.max,
+    projection,
+  };
+}
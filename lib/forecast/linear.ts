@@ -0,0 +1,62 @@
+import regression from "regression";
+import { adjustR2, polynomialIntervalHalfWidth } from "./stats";
+import type {
+  FittedModel,
+  ForecastModel,
+  ForecastOptions,
+  TemperatureData,
+} from "./types";
+
+/**
+ * Fits a straight line to the five-year smooth of the whole series.
+ * The intercept is the estimated temperature at the first year of the series.
+ */
+export function fitLinear(
+  series: TemperatureData[],
+  _options: ForecastOptions = {}
+): FittedModel {
+  if (series.length === 0) {
+    throw new Error("Cannot fit linear regression to an empty series");
+  }
+
+  // Normalize years by using the first year in the dataset as base year
+  const baseYear = parseInt(series[0].year);
+  const points = series.map(
+    (d) => [Number(d.year) - baseYear, d.five_year_smooth] as [number, number]
+  );
+
+  const result = regression.linear(points, { precision: 10 });
+  const [slope, intercept] = result.equation;
+  const n = points.length;
+  const halfWidth = polynomialIntervalHalfWidth(
+    points.map(([x]) => x),
+    points.map(([x, y]) => y - result.predict(x)[1]),
+    1
+  );
+
+  return {
+    type: "linear",
+    baseYear,
+    coefficients: result.equation,
+    equation: `y = ${slope.toFixed(6)}x + ${intercept.toFixed(4)}`,
+    trainingYears: {
+      first: baseYear,
+      last: parseInt(series[series.length - 1].year),
+    },
+    stats: { r2: result.r2, adjustedR2: adjustR2(result.r2, n, 1), n },
+    predict: (year) => result.predict(year - baseYear)[1],
+    interval: (year, level) => {
+      const prediction = result.predict(year - baseYear)[1];
+      const width = halfWidth(year - baseYear, level);
+      return { level, lower: prediction - width, upper: prediction + width };
+    },
+  };
+}
+
+export const linearModel: ForecastModel = {
+  type: "linear",
+  label: "Linear Regression",
+  summary:
+    "A least-squares straight line fitted to the 5-year smooth of the whole series.",
+  fit: fitLinear,
+};
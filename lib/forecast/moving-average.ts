@@ -0,0 +1,77 @@
+import type {
+  FittedModel,
+  ForecastModel,
+  ForecastOptions,
+  TemperatureData,
+} from "./types";
+
+/**
+ * Projects the 5-year average forward at the average yearly rate of change
+ * over the same 5 years. Only years recorded within the last five calendar
+ * years count, so a series with gaps averages fewer values.
+ */
+export function fitMovingAverage(
+  series: TemperatureData[],
+  _options: ForecastOptions = {}
+): FittedModel {
+  if (series.length === 0) {
+    throw new Error("Cannot fit moving average to an empty series");
+  }
+
+  // Get the last 5 years of data
+  const lastYear = parseInt(series[series.length - 1].year);
+  const recentData = series.filter((d) => parseInt(d.year) > lastYear - 5);
+  const avgTemp =
+    recentData.reduce((sum, d) => sum + d.five_year_smooth, 0) /
+    recentData.length;
+
+  const baseYear = parseInt(recentData[0].year);
+
+  // Average yearly rate of change over the last 5 years; a single recorded
+  // year gives no rate
+  const yearlyChange =
+    lastYear > baseYear
+      ? (recentData[recentData.length - 1].five_year_smooth -
+          recentData[0].five_year_smooth) /
+        (lastYear - baseYear)
+      : 0;
+
+  // Measure how well the linear trend fits the window
+  const startTemp = recentData[0].five_year_smooth;
+  const predictedValues = recentData.map(
+    (d) => startTemp + yearlyChange * (parseInt(d.year) - baseYear)
+  );
+  const actualValues = recentData.map((d) => d.five_year_smooth);
+
+  const meanActual = actualValues.reduce((a, b) => a + b) / actualValues.length;
+  const ssTotal = actualValues.reduce(
+    (sum, val) => sum + Math.pow(val - meanActual, 2),
+    0
+  );
+  const ssResidual = actualValues.reduce(
+    (sum, val, i) => sum + Math.pow(val - predictedValues[i], 2),
+    0
+  );
+
+  // Ensure R² is between 0 and 1
+  const r2 = Math.max(0, Math.min(1, 1 - ssResidual / ssTotal));
+
+  return {
+    type: "moving-average",
+    baseYear,
+    coefficients: [yearlyChange, avgTemp],
+    equation: `y = ${avgTemp.toFixed(4)} + ${yearlyChange.toFixed(6)}(year - ${lastYear})`,
+    description: `Rate of change: ${yearlyChange > 0 ? "+" : ""}${(yearlyChange * 100).toFixed(4)}°C per year`,
+    stats: { r2, adjustedR2: r2, n: recentData.length },
+    trainingYears: { first: baseYear, last: lastYear },
+    predict: (year) => avgTemp + yearlyChange * (year - lastYear),
+  };
+}
+
+export const movingAverageModel: ForecastModel = {
+  type: "moving-average",
+  label: "5-Year Moving Average",
+  summary:
+    "The mean of the last five smoothed values, extended by their average yearly change.",
+  fit: fitMovingAverage,
+};
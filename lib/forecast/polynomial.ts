@@ -0,0 +1,152 @@
+import regression from "regression";
+import { lastChangePointYear } from "./changepoint";
+import { adjustR2, polynomialIntervalHalfWidth } from "./stats";
+import type {
+  DampeningOptions,
+  FittedModel,
+  ForecastModel,
+  ForecastOptions,
+  TemperatureData,
+} from "./types";
+
+export const DEFAULT_DAMPENING: DampeningOptions = {
+  horizon: 50,
+  minFactor: 0.2,
+  exponent: 0.8,
+  changeScale: 10,
+};
+
+export const DEFAULT_POLYNOMIAL_ORDER = 2;
+export const DEFAULT_TRAINING_WINDOW = 30;
+
+const superscripts = ["⁰", "¹", "²", "³", "⁴", "⁵", "⁶", "⁷", "⁸", "⁹"];
+
+/**
+ * Formats polynomial coefficients (highest order first) as an equation
+ */
+function formatEquation(coefficients: number[]) {
+  const order = coefficients.length - 1;
+  const terms = coefficients.map((coefficient, i) => {
+    const power = order - i;
+    if (power === 0) return coefficient.toFixed(4);
+    if (power === 1) return `${coefficient.toFixed(6)}x`;
+    return `${coefficient.toExponential(6)}x${superscripts[power]}`;
+  });
+  return `y = ${terms.join(" + ")}`;
+}
+
+/**
+ * Fits a polynomial (quadratic by default) to the five-year smooth of the
+ * most recent years. Unless turned off, predictions are dampened towards the
+ * last known value so that distant forecasts do not grow unrealistically.
+ */
+export function fitPolynomial(
+  series: TemperatureData[],
+  options: ForecastOptions = {}
+): FittedModel {
+  if (series.length === 0) {
+    throw new Error("Cannot fit polynomial regression to an empty series");
+  }
+  const referenceYear = options.referenceYear ?? new Date().getFullYear();
+  const order = options.polynomial?.order ?? DEFAULT_POLYNOMIAL_ORDER;
+  const trainingWindow =
+    options.polynomial?.trainingWindow === undefined
+      ? DEFAULT_TRAINING_WINDOW
+      : options.polynomial.trainingWindow;
+  const dampening =
+    options.polynomial?.dampening === undefined
+      ? DEFAULT_DAMPENING
+      : options.polynomial.dampening;
+
+  // Use recent data (last 30 years by default) to capture current trends better
+  let recentData = series;
+  if (trainingWindow === "change-point") {
+    const start = lastChangePointYear(series);
+    if (start !== null) {
+      recentData = series.filter((d) => parseInt(d.year) >= start);
+    }
+  } else if (trainingWindow !== null) {
+    recentData = series.slice(-trainingWindow);
+  }
+  if (recentData.length <= order) {
+    throw new Error(
+      `Polynomial of order ${order} needs more than ${order} data points`
+    );
+  }
+
+  // Normalize years to prevent numerical instability
+  const baseYear = parseInt(recentData[0].year);
+  const points = recentData.map(
+    (d) => [Number(d.year) - baseYear, d.five_year_smooth] as [number, number]
+  );
+
+  const result = regression.polynomial(points, { order, precision: 10 });
+  const lastKnownTemp = recentData[recentData.length - 1].five_year_smooth;
+
+  /**
+   * Pulls a raw regression value towards the last known temperature
+   */
+  function dampen(rawPrediction: number, year: number) {
+    if (!dampening) return rawPrediction;
+
+    // Flatten the curve for distant predictions; years up to the reference
+    // year are not dampened
+    const yearsIntoFuture = Math.max(0, year - referenceYear);
+    const dampeningFactor = Math.max(
+      dampening.minFactor,
+      1 - Math.pow(yearsIntoFuture / dampening.horizon, dampening.exponent)
+    );
+
+    // Apply stronger dampening for larger deviations from the last known value
+    const predictedChange = rawPrediction - lastKnownTemp;
+    const adjustmentFactor =
+      predictedChange > 0
+        ? Math.max(0.3, 1 - predictedChange / dampening.changeScale) // For positive changes (warming)
+        : Math.min(1.7, 1 - predictedChange / dampening.changeScale); // For negative changes (cooling)
+
+    return lastKnownTemp + predictedChange * dampeningFactor * adjustmentFactor;
+  }
+
+  const predictRaw = (year: number) => result.predict(year - baseYear)[1];
+
+  const halfWidth = polynomialIntervalHalfWidth(
+    points.map(([x]) => x),
+    points.map(([x, y]) => y - result.predict(x)[1]),
+    order
+  );
+
+  const n = points.length;
+  const adjustedR2 = adjustR2(result.r2, n, order);
+
+  return {
+    type: "polynomial",
+    baseYear,
+    coefficients: result.equation,
+    equation: formatEquation(result.equation),
+    trainingYears: {
+      first: baseYear,
+      last: parseInt(recentData[recentData.length - 1].year),
+    },
+    stats: { r2: result.r2, adjustedR2, n },
+    predict: (year) => dampen(predictRaw(year), year),
+    predictRaw,
+    // Bounds of the raw fit go through the same dampening as the prediction
+    interval: (year, level) => {
+      const raw = predictRaw(year);
+      const width = halfWidth(year - baseYear, level);
+      return {
+        level,
+        lower: dampen(raw - width, year),
+        upper: dampen(raw + width, year),
+      };
+    },
+  };
+}
+
+export const polynomialModel: ForecastModel = {
+  type: "polynomial",
+  label: "Polynomial Regression",
+  summary:
+    "A least-squares polynomial fitted to the 5-year smooth over the training window, with long-range changes dampened towards the last known value.",
+  fit: fitPolynomial,
+};
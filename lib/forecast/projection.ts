@@ -0,0 +1,59 @@
+import type { ClimateBaseline, TemperatureData } from "./types";
+
+// Reference periods offered for anomalies
+export const CLIMATE_BASELINES: ClimateBaseline[] = [
+  { label: "1991–2020 (current normal)", startYear: 1991, endYear: 2020 },
+  { label: "1961–1990 (WMO reference)", startYear: 1961, endYear: 1990 },
+  { label: "1901–1930 (pre-industrial)", startYear: 1901, endYear: 1930 },
+];
+
+export const DEFAULT_BASELINE = CLIMATE_BASELINES[0];
+
+// Year steps offered for multi-year projections
+export const PROJECTION_STEPS = [1, 5];
+
+/**
+ * Rows of the series that fall inside the baseline period
+ */
+export function baselineYears(
+  series: TemperatureData[],
+  baseline: ClimateBaseline
+) {
+  return series.filter((d) => {
+    const year = parseInt(d.year);
+    return year >= baseline.startYear && year <= baseline.endYear;
+  });
+}
+
+/**
+ * Mean annual temperature over the baseline years present in the series
+ * @returns The mean, or null when no year falls inside the baseline
+ */
+export function baselineMean(
+  series: TemperatureData[],
+  baseline: ClimateBaseline = DEFAULT_BASELINE
+) {
+  const values = baselineYears(series, baseline).map((d) => d.annual_mean);
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Formats an anomaly with an explicit sign, e.g. "+1.2°C"
+ */
+export function formatAnomaly(value: number, digits = 2, unit = "°C") {
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}${unit}`;
+}
+
+/**
+ * Years from start to end inclusive. The end year is always included, even
+ * when the step does not divide the range.
+ */
+export function projectionYears(start: number, end: number, step = 1) {
+  const years: number[] = [];
+  for (let year = start; year < end; year += Math.max(1, step)) {
+    years.push(year);
+  }
+  years.push(end);
+  return years;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DAMPENING } from "@/lib/forecast";
+import { parseForecastRequest } from "@/lib/forecast/request";
+
+describe("parseForecastRequest", () => {
+  it.each(["constructor", "toString", "__proto__"])(
+    "rejects the inherited key %s as a model",
+    (model) => {
+      const result = parseForecastRequest({ model, targetYear: 2050 });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.field).toBe("model");
+    }
+  );
+
+  it("fills dampening settings left out with the defaults", () => {
+    const result = parseForecastRequest({
+      model: "polynomial",
+      targetYear: 2050,
+      options: { polynomial: { dampening: { horizon: 80 } } },
+    });
+    expect(result.ok && result.value.options.polynomial?.dampening).toEqual({
+      ...DEFAULT_DAMPENING,
+      horizon: 80,
+    });
+  });
+
+  it.each(["horizon", "changeScale"])("rejects a zero %s", (key) => {
+    const result = parseForecastRequest({
+      model: "polynomial",
+      targetYear: 2050,
+      options: { polynomial: { dampening: { [key]: 0 } } },
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.field).toBe(`options.polynomial.dampening.${key}`);
+    }
+  });
+});
@@ -0,0 +1,263 @@
+import { INDICATORS, type IndicatorKey } from "@/lib/dataset/indicators";
+import { REGIONS } from "@/lib/regions";
+import { forecastModels, isModelType } from "./index";
+import { MAX_ARIMA_ORDER } from "./arima";
+import { DEFAULT_DAMPENING } from "./polynomial";
+import type {
+  DampeningOptions,
+  ForecastOptions,
+  ModelType,
+  PolynomialOptions,
+} from "./types";
+
+// Most target years a single request may ask for
+export const MAX_TARGET_YEARS = 200;
+export const MIN_TARGET_YEAR = 1800;
+export const MAX_TARGET_YEAR = 2300;
+
+// First year the simulation page forecasts from
+export const MIN_SIMULATION_YEAR = 2024;
+
+export type ForecastRequest = {
+  model: ModelType;
+  // Region code from REGIONS; null for the national series
+  region: string | null;
+  // Quantity to forecast; "mean" is the annual mean temperature
+  indicator: IndicatorKey;
+  targetYears: number[];
+  options: ForecastOptions;
+};
+
+export type ForecastRequestError = {
+  // Name of the offending input, dotted for nested options
+  field: string;
+  message: string;
+};
+
+export type ParseResult =
+  | { ok: true; value: ForecastRequest }
+  | { ok: false; error: ForecastRequestError };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+/**
+ * Checks model-specific options, returning the first problem found
+ */
+function parseOptions(
+  input: unknown
+):
+  | { ok: true; value: ForecastOptions }
+  | { ok: false; error: ForecastRequestError } {
+  if (input === undefined) return { ok: true, value: {} };
+  const fail = (field: string, message: string) =>
+    ({
+      ok: false,
+      error: { field: field ? `options.${field}` : "options", message },
+    }) as const;
+  if (!isRecord(input)) return fail("", "options must be an object");
+
+  const options: ForecastOptions = {};
+
+  if (input.referenceYear !== undefined) {
+    if (!isInteger(input.referenceYear)) {
+      return fail("referenceYear", "referenceYear must be a whole year");
+    }
+    options.referenceYear = input.referenceYear;
+  }
+
+  if (input.polynomial !== undefined) {
+    const polynomial = input.polynomial;
+    if (!isRecord(polynomial)) {
+      return fail("polynomial", "polynomial options must be an object");
+    }
+    const parsed: PolynomialOptions = {};
+    if (polynomial.order !== undefined) {
+      if (
+        !isInteger(polynomial.order) ||
+        polynomial.order < 1 ||
+        polynomial.order > 4
+      ) {
+        return fail(
+          "polynomial.order",
+          "order must be a whole number from 1 to 4"
+        );
+      }
+      parsed.order = polynomial.order;
+    }
+    if (polynomial.trainingWindow !== undefined) {
+      if (
+        polynomial.trainingWindow !== null &&
+        polynomial.trainingWindow !== "change-point" &&
+        (!isInteger(polynomial.trainingWindow) || polynomial.trainingWindow < 3)
+      ) {
+        return fail(
+          "polynomial.trainingWindow",
+          'trainingWindow must be a whole number of years (at least 3), "change-point" for the years since the last change point or null for all years'
+        );
+      }
+      parsed.trainingWindow = polynomial.trainingWindow;
+    }
+    if (polynomial.dampening !== undefined) {
+      if (polynomial.dampening === false) {
+        parsed.dampening = false;
+      } else if (isRecord(polynomial.dampening)) {
+        // Settings left out keep their defaults
+        const dampening: DampeningOptions = { ...DEFAULT_DAMPENING };
+        for (const key of [
+          "horizon",
+          "minFactor",
+          "exponent",
+          "changeScale",
+        ] as const) {
+          const value = polynomial.dampening[key];
+          if (value === undefined) continue;
+          // A zero horizon or change scale would divide by zero
+          const positive = key === "horizon" || key === "changeScale";
+          if (
+            !isFiniteNumber(value) ||
+            value < 0 ||
+            (positive && value === 0)
+          ) {
+            return fail(
+              `polynomial.dampening.${key}`,
+              positive
+                ? `${key} must be a positive number`
+                : `${key} must be a non-negative number`
+            );
+          }
+          dampening[key] = value;
+        }
+        parsed.dampening = dampening;
+      } else {
+        return fail(
+          "polynomial.dampening",
+          "dampening must be false or an object"
+        );
+      }
+    }
+    options.polynomial = parsed;
+  }
+
+  if (input.arima !== undefined) {
+    const arima = input.arima;
+    if (!isRecord(arima))
+      return fail("arima", "arima options must be an object");
+    for (const key of ["p", "d", "q"] as const) {
+      const value = arima[key];
+      if (!isInteger(value) || value < 0 || value > MAX_ARIMA_ORDER[key]) {
+        return fail(
+          `arima.${key}`,
+          `${key} must be a whole number from 0 to ${MAX_ARIMA_ORDER[key]}`
+        );
+      }
+    }
+    options.arima = {
+      p: arima.p as number,
+      d: arima.d as number,
+      q: arima.q as number,
+    };
+  }
+
+  if (input.holt !== undefined) {
+    const holt = input.holt;
+    if (!isRecord(holt)) return fail("holt", "holt options must be an object");
+    options.holt = {};
+    for (const key of ["alpha", "beta"] as const) {
+      const value = holt[key];
+      if (value === undefined) continue;
+      if (!isFiniteNumber(value) || value <= 0 || value >= 1) {
+        return fail(`holt.${key}`, `${key} must be between 0 and 1`);
+      }
+      options.holt[key] = value;
+    }
+  }
+
+  return { ok: true, value: options };
+}
+
+/**
+ * Validates an untrusted forecast request, such as a parsed JSON body.
+ * Accepts either targetYear (one year) or targetYears (a list).
+ */
+export function parseForecastRequest(input: unknown): ParseResult {
+  const fail = (field: string, message: string): ParseResult => ({
+    ok: false,
+    error: { field, message },
+  });
+  if (!isRecord(input)) return fail("", "Request must be a JSON object");
+
+  const model = input.model;
+  if (typeof model !== "string" || !isModelType(model)) {
+    return fail(
+      "model",
+      `model must be one of: ${Object.keys(forecastModels).join(", ")}`
+    );
+  }
+
+  const years =
+    input.targetYears !== undefined
+      ? input.targetYears
+      : input.targetYear !== undefined
+        ? [input.targetYear]
+        : undefined;
+  if (!Array.isArray(years) || years.length === 0) {
+    return fail("targetYears", "targetYear or targetYears is required");
+  }
+  if (years.length > MAX_TARGET_YEARS) {
+    return fail(
+      "targetYears",
+      `At most ${MAX_TARGET_YEARS} target years can be requested at once`
+    );
+  }
+  for (const year of years) {
+    if (!isInteger(year) || year < MIN_TARGET_YEAR || year > MAX_TARGET_YEAR) {
+      return fail(
+        "targetYears",
+        `Target years must be whole years from ${MIN_TARGET_YEAR} to ${MAX_TARGET_YEAR}`
+      );
+    }
+  }
+
+  const region = input.region ?? null;
+  if (
+    region !== null &&
+    !REGIONS.some((candidate) => candidate.code === region)
+  ) {
+    return fail(
+      "region",
+      `region must be one of: ${REGIONS.map((r) => r.code).join(", ")}`
+    );
+  }
+
+  const indicator = input.indicator ?? "mean";
+  if (!INDICATORS.some((candidate) => candidate.key === indicator)) {
+    return fail(
+      "indicator",
+      `indicator must be one of: ${INDICATORS.map((i) => i.key).join(", ")}`
+    );
+  }
+
+  const options = parseOptions(input.options);
+  if (!options.ok) return options;
+
+  return {
+    ok: true,
+    value: {
+      model,
+      region: region as string | null,
+      indicator: indicator as IndicatorKey,
+      targetYears: Array.from(new Set(years as number[])).sort((a, b) => a - b),
+      options: options.value,
+    },
+  };
+}
@@ -0,0 +1,292 @@
+import { forecastModels, type ForecastRun } from "./index";
+import { formatAnomaly } from "./projection";
+import { MIN_SIMULATION_YEAR } from "./request";
+import type {
+  ArimaOptions,
+  ClimateBaseline,
+  ForecastOptions,
+  HoltOptions,
+  ModelType,
+  PolynomialOptions,
+  PredictionInterval,
+  ProjectionRow,
+  TemperatureData,
+} from "./types";
+
+/**
+ * Why a simulation produced no result
+ */
+export type SimulationError =
+  | "invalid-year"
+  | "invalid-range"
+  | "no-models"
+  | "unrealistic"
+  | "calculation";
+
+export const SIMULATION_ERRORS: Record<SimulationError, string> = {
+  "invalid-year": `Please select a year from ${MIN_SIMULATION_YEAR} onwards for predictions.`,
+  "invalid-range": "The first year must not be after the last year.",
+  "no-models": "Select at least one model to compare.",
+  unrealistic: "Prediction falls outside realistic range.",
+  calculation: "Calculation error occurred",
+};
+
+/**
+ * Something to keep in mind when reading a forecast that is still reported
+ */
+export type ResultWarning =
+  // Years whose prediction falls outside the realistic range
+  | { kind: "unrealistic"; years: number[] }
+  // The forecast reaches further ahead than the training data goes back
+  | { kind: "long-horizon"; horizon: number; trainingYears: number };
+
+/**
+ * Settings a model was fitted with; models without settings have none
+ */
+export type ModelSettings =
+  | { polynomial: PolynomialOptions }
+  | { arima: ArimaOptions }
+  | { holt: HoltOptions }
+  | Record<string, never>;
+
+/**
+ * Forecast of one model, with its fit, in numbers rather than text
+ */
+export type ModelResult = {
+  type: ModelType;
+  targetYear: number;
+  prediction: number;
+  // Prediction before dampening; null for models that do not adjust it
+  rawPrediction: number | null;
+  // Prediction minus the baseline mean; null when the data does not cover
+  // the baseline period
+  anomaly: number | null;
+  // One per PREDICTION_LEVELS entry; empty when the model has no intervals
+  intervals: PredictionInterval[];
+  // Year-by-year predictions; the target year alone when comparing models
+  projection: ProjectionRow[];
+  settings: ModelSettings;
+  equation: string;
+  coefficients: number[];
+  // Fitted parameters not captured by the coefficients, e.g. smoothing
+  // weights; null when there are none
+  parameters: string | null;
+  // Year at which x = 0 in the equation
+  baseYear: number;
+  r2: number;
+  adjustedR2: number;
+  // Years the model was fitted on, the number of points used and how many
+  // of those years were imputed
+  training: {
+    firstYear: number;
+    lastYear: number;
+    points: number;
+    imputed: number;
+  };
+  warnings: ResultWarning[];
+};
+
+/**
+ * Outcome of a simulation run
+ */
+export type SimulationResult = {
+  targetYear: number;
+  // The selected model, or every compared model; empty on error
+  models: ModelResult[];
+  error: SimulationError | null;
+};
+
+export function failedSimulation(
+  targetYear: number,
+  error: SimulationError
+): SimulationResult {
+  return { targetYear, models: [], error };
+}
+
+function modelSettings(
+  type: ModelType,
+  options: ForecastOptions
+): ModelSettings {
+  if (type === "polynomial" && options.polynomial) {
+    return { polynomial: options.polynomial };
+  }
+  if (type === "arima" && options.arima) return { arima: options.arima };
+  if (type === "holt" && options.holt) return { holt: options.holt };
+  return {};
+}
+
+/**
+ * Collects the fit and forecast of a run into a model result
+ * @param options - Options the run was fitted with
+ * @param series - Series the run was fitted on, to count imputed years
+ */
+export function modelResult(
+  run: ForecastRun,
+  options: ForecastOptions = {},
+  series: TemperatureData[] = []
+): ModelResult {
+  const { model, targetYear, projection } = run;
+  const { first, last } = model.trainingYears;
+  const imputed = series.filter((row) => {
+    const year = parseInt(row.year);
+    return row.imputed && year >= first && year <= last;
+  }).length;
+  const warnings: ResultWarning[] = [];
+
+  const unrealistic = projection
+    .filter((row) => !row.realistic)
+    .map((row) => row.year);
+  if (!run.realistic && !unrealistic.includes(targetYear)) {
+    unrealistic.push(targetYear);
+  }
+  if (unrealistic.length > 0) {
+    warnings.push({ kind: "unrealistic", years: unrealistic });
+  }
+  const horizon = targetYear - last;
+  const span = last - first + 1;
+  if (horizon > span) {
+    warnings.push({ kind: "long-horizon", horizon, trainingYears: span });
+  }
+
+  const final = projection.find((row) => row.year === targetYear);
+  return {
+    type: run.type,
+    targetYear,
+    prediction: run.prediction,
+    rawPrediction: model.predictRaw ? model.predictRaw(targetYear) : null,
+    anomaly: final?.anomaly ?? null,
+    intervals: run.intervals,
+    projection,
+    settings: modelSettings(run.type, options),
+    equation: model.equation,
+    coefficients: model.coefficients,
+    parameters: model.description ?? null,
+    baseYear: model.baseYear,
+    r2: model.stats.r2,
+    adjustedR2: model.stats.adjustedR2,
+    training: {
+      firstYear: first,
+      lastYear: last,
+      points: model.stats.n,
+      imputed,
+    },
+    warnings,
+  };
+}
+
+/**
+ * How results are written out as text
+ */
+export type ResultFormat = {
+  unit: string;
+  // Name of the predicted quantity, e.g. "Predicted Temperature"
+  predicted: string;
+  baseline: ClimateBaseline;
+  // Decimal places of predicted values; fit statistics use three
+  digits?: number;
+};
+
+export function describeWarning(warning: ResultWarning) {
+  if (warning.kind === "unrealistic") {
+    return `Warning: outside the realistic range in ${warning.years.join(", ")}`;
+  }
+  return `Warning: forecasting ${warning.horizon} years ahead from ${warning.trainingYears} years of training data`;
+}
+
+/**
+ * Lines describing one model's forecast and fit
+ */
+export function describeModelResult(
+  result: ModelResult,
+  { unit, predicted, baseline, digits = 1 }: ResultFormat
+) {
+  const value = (v: number) => `${v.toFixed(digits)}${unit}`;
+  const { settings, training } = result;
+  const label = forecastModels[result.type].label;
+  const lines = [`Year: ${result.targetYear}`];
+
+  const polynomial = "polynomial" in settings ? settings.polynomial : null;
+  lines.push(
+    polynomial?.dampening
+      ? `${predicted} (damped): ${value(result.prediction)}`
+      : `${predicted}: ${value(result.prediction)}`
+  );
+  if (result.anomaly !== null) {
+    lines.push(
+      `Anomaly vs ${baseline.startYear}–${baseline.endYear}: ${formatAnomaly(result.anomaly, digits, unit)}`
+    );
+  }
+
+  if (result.type === "polynomial") {
+    if (result.rawPrediction !== null) {
+      lines.push(`Raw Regression Prediction: ${value(result.rawPrediction)}`);
+    }
+    lines.push(
+      `Model: ${label}${polynomial?.order ? ` (order ${polynomial.order})` : ""}`
+    );
+    const window = polynomial?.trainingWindow;
+    const windowLabel =
+      window === "change-point"
+        ? "from last change point"
+        : window
+          ? `last ${window} years`
+          : "all years";
+    lines.push(
+      `Training Window: ${windowLabel} (${training.firstYear}–${training.lastYear})`
+    );
+    const dampening = polynomial?.dampening;
+    lines.push(
+      dampening
+        ? `Dampening: horizon ${dampening.horizon} years, exponent ${dampening.exponent}, minimum factor ${dampening.minFactor}, change scale ${dampening.changeScale}${unit}`
+        : `Dampening: off`
+    );
+    lines.push(`Equation: ${result.equation}`);
+    lines.push(`Adjusted R²: ${result.adjustedR2.toFixed(3)}`);
+  } else if (result.type === "linear") {
+    const [, intercept] = result.coefficients;
+    lines.push(`Model: ${label}`);
+    lines.push(
+      `Base Year: ${result.baseYear} (Value: ${intercept.toFixed(digits + 1)}${unit})`
+    );
+    lines.push(`Technical Equation: ${result.equation}`);
+    lines.push(`R²: ${result.r2.toFixed(3)}`);
+  } else if (result.type === "moving-average") {
+    lines.push(`Model: ${label}`);
+    lines.push(`R² (last ${training.points} years): ${result.r2.toFixed(3)}`);
+  } else {
+    lines.push(`Model: ${label}`);
+    lines.push(`Equation: ${result.equation}`);
+    if (result.parameters) lines.push(`Parameters: ${result.parameters}`);
+    lines.push(`R²: ${result.r2.toFixed(3)}`);
+  }
+
+  if (training.imputed > 0) {
+    lines.push(
+      `Imputed Years: ${training.imputed} of ${training.lastYear - training.firstYear + 1} in training`
+    );
+  }
+
+  for (const { level, lower, upper } of result.intervals) {
+    lines.push(
+      `${(level * 100).toFixed(0)}% Prediction Interval: ${value(lower)} – ${value(upper)}`
+    );
+  }
+  return [...lines, ...result.warnings.map(describeWarning)];
+}
+
+/**
+ * Lines describing a simulation: one line per compared model, or the selected
+ * model's forecast and fit. A failed simulation has none; see
+ * SIMULATION_ERRORS.
+ */
+export function describeResult(result: SimulationResult, format: ResultFormat) {
+  if (result.error) return [];
+  if (result.models.length === 1) {
+    return describeModelResult(result.models[0], format);
+  }
+  const digits = format.digits ?? 1;
+  return result.models.map(
+    (model) =>
+      `${forecastModels[model.type].label}: ${model.prediction.toFixed(digits)}${format.unit}`
+  );
+}
@@ -0,0 +1,331 @@
+/**
+ * Adjusts R² for the number of predictors in the model
+ * @param r2 - Unadjusted coefficient of determination
+ * @param n - Number of observations
+ * @param p - Number of predictors (excluding the intercept)
+ */
+export function adjustR2(r2: number, n: number, p: number) {
+  return 1 - ((1 - r2) * (n - 1)) / (n - p - 1);
+}
+
+/**
+ * Coefficient of determination between observed and fitted values
+ */
+export function rSquared(actual: number[], fitted: number[]) {
+  const mean = actual.reduce((a, b) => a + b, 0) / actual.length;
+  const ssTotal = actual.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0);
+  const ssResidual = actual.reduce(
+    (sum, val, i) => sum + Math.pow(val - fitted[i], 2),
+    0
+  );
+  return 1 - ssResidual / ssTotal;
+}
+
+/**
+ * Value recorded for a year of a series ordered by year. A year dropped as a
+ * gap takes the closest earlier year's value, and years before the series
+ * the first value.
+ */
+export function valueAtYear(years: number[], values: number[], year: number) {
+  let index = 0;
+  while (index + 1 < years.length && years[index + 1] <= year) index++;
+  return values[index];
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+  const g = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  x -= 1;
+  let a = 0.99999999999980993;
+  const t = x + 7.5;
+  for (let i = 0; i < g.length; i++) {
+    a += g[i] / (x + i + 1);
+  }
+  return (
+    0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a)
+  );
+}
+
+/**
+ * Continued fraction for the incomplete beta function (Numerical Recipes)
+ */
+function betaContinuedFraction(x: number, a: number, b: number) {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function incompleteBeta(x: number, a: number, b: number) {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) -
+      logGamma(a) -
+      logGamma(b) +
+      a * Math.log(x) +
+      b * Math.log(1 - x)
+  );
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Cumulative distribution function of Student's t distribution
+ * @param t - Test statistic
+ * @param df - Degrees of freedom
+ */
+export function studentTCdf(t: number, df: number) {
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Cumulative distribution function of the F distribution
+ * @param f - Test statistic
+ * @param df1 - Numerator degrees of freedom
+ * @param df2 - Denominator degrees of freedom
+ */
+export function fDistributionCdf(f: number, df1: number, df2: number) {
+  if (f <= 0) return 0;
+  return incompleteBeta((df1 * f) / (df1 * f + df2), df1 / 2, df2 / 2);
+}
+
+/**
+ * Inverse of the Student's t CDF, found by bisection
+ * @param p - Cumulative probability, between 0 and 1
+ * @param df - Degrees of freedom
+ */
+export function studentTQuantile(p: number, df: number): number {
+  if (p === 0.5) return 0;
+  if (p < 0.5) return -studentTQuantile(1 - p, df);
+
+  let low = 0;
+  let high = 1;
+  while (studentTCdf(high, df) < p) high *= 2;
+
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (studentTCdf(mid, df) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Cumulative distribution function of the standard normal distribution,
+ * from the complementary error function (Numerical Recipes' erfcc,
+ * fractional error below 1.2e-7)
+ */
+export function normalCdf(z: number) {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * x);
+  const erfc =
+    t *
+    Math.exp(
+      -x * x -
+        1.26551223 +
+        t *
+          (1.00002368 +
+            t *
+              (0.37409196 +
+                t *
+                  (0.09678418 +
+                    t *
+                      (-0.18628806 +
+                        t *
+                          (0.27886807 +
+                            t *
+                              (-1.13520398 +
+                                t *
+                                  (1.48851587 +
+                                    t * (-0.82215223 + t * 0.17087277))))))))
+    );
+  return z >= 0 ? 1 - erfc / 2 : erfc / 2;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error below 1.15e-9)
+ * @param p - Cumulative probability, between 0 and 1
+ */
+export function normalQuantile(p: number): number {
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) *
+      q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/**
+ * Inverts a small symmetric positive-definite matrix by Gauss-Jordan
+ * elimination with partial pivoting
+ */
+function invertMatrix(matrix: number[][]) {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [
+    ...row,
+    ...row.map((_, j) => (i === j ? 1 : 0)),
+  ]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const divisor = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= divisor;
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = a[row][col];
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= factor * a[col][j];
+    }
+  }
+
+  return a.map((row) => row.slice(n));
+}
+
+/**
+ * Ordinary least squares fit of y on the columns of a design matrix
+ * @param rows - One row of predictors per observation (include a column of
+ * ones for an intercept)
+ * @param y - Observations
+ */
+export function leastSquares(rows: number[][], y: number[]) {
+  const k = rows[0].length;
+  const xtx = Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) =>
+      rows.reduce((sum, row) => sum + row[i] * row[j], 0)
+    )
+  );
+  const xty = Array.from({ length: k }, (_, i) =>
+    rows.reduce((sum, row, n) => sum + row[i] * y[n], 0)
+  );
+  const xtxInverse = invertMatrix(xtx);
+  const coefficients = xtxInverse.map((row) =>
+    row.reduce((sum, value, j) => sum + value * xty[j], 0)
+  );
+  const fitted = rows.map((row) =>
+    row.reduce((sum, value, j) => sum + value * coefficients[j], 0)
+  );
+  const residuals = y.map((value, n) => value - fitted[n]);
+
+  return { coefficients, fitted, residuals, xtxInverse };
+}
+
+/**
+ * Two-sided prediction interval for a least-squares polynomial fit,
+ * from the residual variance and the leverage of the new point
+ * @param xs - Predictor values the model was trained on
+ * @param residuals - Observed minus fitted values at xs
+ * @param order - Polynomial order (1 for a straight line)
+ * @returns Function giving the half-width of the interval at x for a level
+ */
+export function polynomialIntervalHalfWidth(
+  xs: number[],
+  residuals: number[],
+  order: number
+) {
+  const n = xs.length;
+  const df = n - order - 1;
+  const powers = (x: number) =>
+    Array.from({ length: order + 1 }, (_, k) => Math.pow(x, k));
+
+  // (XᵀX)⁻¹ for the design matrix with columns 1, x, x², ...
+  const xtx = Array.from({ length: order + 1 }, (_, i) =>
+    Array.from({ length: order + 1 }, (_, j) =>
+      xs.reduce((sum, x) => sum + Math.pow(x, i + j), 0)
+    )
+  );
+  const xtxInverse = invertMatrix(xtx);
+
+  const sse = residuals.reduce((sum, r) => sum + r * r, 0);
+  const residualStdError = Math.sqrt(sse / df);
+
+  return (x: number, level: number) => {
+    if (df <= 0) return NaN;
+    const row = powers(x);
+    const leverage = row.reduce(
+      (sum, ri, i) =>
+        sum +
+        ri * row.reduce((inner, rj, j) => inner + xtxInverse[i][j] * rj, 0),
+      0
+    );
+    const t = studentTQuantile(1 - (1 - level) / 2, df);
+    return t * residualStdError * Math.sqrt(1 + leverage);
+  };
+}
@@ -0,0 +1,128 @@
+import regression from "regression";
+import { adjustR2, polynomialIntervalHalfWidth } from "./stats";
+import type {
+  FittedModel,
+  ForecastModel,
+  ForecastOptions,
+  TemperatureData,
+} from "./types";
+
+type TransformedType = "exponential" | "logarithmic" | "power";
+
+/**
+ * How each curve becomes a straight line: the fit is linear in (tx(x), ty(y))
+ */
+const transforms: Record<
+  TransformedType,
+  {
+    // Logarithmic and power curves need x > 0, so years are counted from 1
+    xOffset: number;
+    tx: (x: number) => number;
+    ty: (y: number) => number;
+    tyInverse: (v: number) => number;
+    format: (a: number, b: number) => string;
+  }
+> = {
+  exponential: {
+    xOffset: 0,
+    tx: (x) => x,
+    ty: Math.log,
+    tyInverse: Math.exp,
+    format: (a, b) => `y = ${a.toFixed(4)}e^(${b.toExponential(6)}x)`,
+  },
+  logarithmic: {
+    xOffset: 1,
+    tx: Math.log,
+    ty: (y) => y,
+    tyInverse: (v) => v,
+    format: (a, b) => `y = ${a.toFixed(4)} + ${b.toFixed(6)} ln(x)`,
+  },
+  power: {
+    xOffset: 1,
+    tx: Math.log,
+    ty: Math.log,
+    tyInverse: Math.exp,
+    format: (a, b) => `y = ${a.toFixed(4)}x^${b.toExponential(6)}`,
+  },
+};
+
+/**
+ * Fits an exponential, logarithmic or power curve to the five-year smooth of
+ * the whole series. Prediction intervals are approximate: they come from the
+ * straight-line fit in transformed space and are mapped back.
+ */
+function fitTransformed(
+  type: TransformedType,
+  series: TemperatureData[]
+): FittedModel {
+  if (series.length === 0) {
+    throw new Error(`Cannot fit ${type} regression to an empty series`);
+  }
+  const { xOffset, tx, ty, tyInverse, format } = transforms[type];
+
+  const baseYear = parseInt(series[0].year) - xOffset;
+  const points = series.map(
+    (d) => [Number(d.year) - baseYear, d.five_year_smooth] as [number, number]
+  );
+
+  const result = regression[type](points, { precision: 10 });
+  const [a, b] = result.equation;
+  const predict = (year: number) => result.predict(year - baseYear)[1];
+
+  const halfWidth = polynomialIntervalHalfWidth(
+    points.map(([x]) => tx(x)),
+    points.map(([x, y]) => ty(y) - ty(result.predict(x)[1])),
+    1
+  );
+  const n = points.length;
+
+  return {
+    type,
+    baseYear,
+    coefficients: result.equation,
+    equation: format(a, b),
+    stats: { r2: result.r2, adjustedR2: adjustR2(result.r2, n, 1), n },
+    trainingYears: {
+      first: parseInt(series[0].year),
+      last: parseInt(series[series.length - 1].year),
+    },
+    predict,
+    interval: (year, level) => {
+      const x = year - baseYear;
+      const center = ty(predict(year));
+      const width = halfWidth(tx(x), level);
+      return {
+        level,
+        lower: tyInverse(center - width),
+        upper: tyInverse(center + width),
+      };
+    },
+  };
+}
+
+export const exponentialModel: ForecastModel = {
+  type: "exponential",
+  label: "Exponential Regression",
+  summary:
+    "An exponential curve fitted to the 5-year smooth by least squares on the logarithm of the values.",
+  fit: (series: TemperatureData[], _options?: ForecastOptions) =>
+    fitTransformed("exponential", series),
+};
+
+export const logarithmicModel: ForecastModel = {
+  type: "logarithmic",
+  label: "Logarithmic Regression",
+  summary:
+    "A logarithmic curve fitted to the 5-year smooth by least squares on the logarithm of the years.",
+  fit: (series: TemperatureData[], _options?: ForecastOptions) =>
+    fitTransformed("logarithmic", series),
+};
+
+export const powerModel: ForecastModel = {
+  type: "power",
+  label: "Power Regression",
+  summary:
+    "A power curve fitted to the 5-year smooth by least squares on the logarithms of years and values.",
+  fit: (series: TemperatureData[], _options?: ForecastOptions) =>
+    fitTransformed("power", series),
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { mannKendall, type TemperatureData } from "@/lib/forecast";
+
+function series(firstYear: number, values: number[]): TemperatureData[] {
+  return values.map((value, i) => ({
+    year: String(firstYear + i),
+    annual_mean: value,
+    five_year_smooth: value,
+  }));
+}
+
+describe("mannKendall", () => {
+  it("matches the closed form for a steadily rising series", () => {
+    // Every pair rises, so S = n(n - 1)/2 and Var(S) = n(n - 1)(2n + 5)/18
+    const test = mannKendall(
+      series(
+        2000,
+        Array.from({ length: 10 }, (_, i) => 27 + 0.02 * i)
+      ),
+      "annual_mean",
+      2000,
+      2009
+    )!;
+    expect(test.s).toBe(45);
+    expect(test.tau).toBe(1);
+    expect(test.variance).toBeCloseTo(125, 10);
+    expect(test.correction).toBe(1);
+    expect(test.z).toBeCloseTo(44 / Math.sqrt(125), 10);
+    expect(test.trend).toBe("increasing");
+    expect(test.senSlope).toBeCloseTo(0.02, 10);
+    expect(test.senInterval.lower).toBeCloseTo(0.02, 10);
+    expect(test.senInterval.upper).toBeCloseTo(0.02, 10);
+  });
+
+  // Reference values from an independent implementation of the
+  // Hamed-Rao test (after pyMannKendall) and Gilbert's interval
+  it("reduces the variance for ties and finds no autocorrelation", () => {
+    const test = mannKendall(
+      series(
+        2000,
+        [
+          27.35, 26.92, 27.1, 27.08, 27.21, 26.89, 27.06, 27.03, 27.0, 27.05,
+          27.12, 27.18, 27.1, 27.32, 27.2, 26.82, 27.5, 27.28, 27.25, 27.42,
+        ]
+      ),
+      "annual_mean",
+      2000,
+      2019
+    )!;
+    expect(test.s).toBe(59);
+    expect(test.tau).toBeCloseTo(0.3105263158, 10);
+    expect(test.variance).toBeCloseTo(949, 10);
+    expect(test.correction).toBe(1);
+    expect(test.z).toBeCloseTo(1.8827596722, 8);
+    expect(test.pValue).toBeCloseTo(0.0597329446, 5);
+    expect(test.trend).toBe("none");
+    expect(test.senSlope).toBeCloseTo(0.0165151515, 10);
+    expect(test.senInterval.lower).toBeCloseTo(-0.001, 10);
+    expect(test.senInterval.upper).toBeCloseTo(0.028, 10);
+  });
+
+  it("applies the Hamed-Rao correction for autocorrelated ranks", () => {
+    const test = mannKendall(
+      series(
+        2000,
+        [
+          27.01, 27.09, 26.97, 27.11, 27.22, 27.16, 27.35, 27.01, 27.17, 27.07,
+          27.08, 27.19, 27.27, 27.32, 27.36, 27.64, 27.45, 27.1, 27.39, 27.29,
+        ]
+      ),
+      "annual_mean",
+      2000,
+      2019
+    )!;
+    expect(test.s).toBe(97);
+    expect(test.correction).toBeCloseTo(0.5530932595, 8);
+    expect(test.variance).toBeCloseTo(524.8855032318, 6);
+    expect(test.z).toBeCloseTo(4.1902404403, 8);
+    expect(test.pValue).toBeCloseTo(2.78659e-5, 6);
+    expect(test.trend).toBe("increasing");
+    expect(test.senSlope).toBeCloseTo(0.0195833333, 10);
+    expect(test.senInterval.lower).toBeCloseTo(0.0111111111, 10);
+    expect(test.senInterval.upper).toBeCloseTo(0.0263636364, 10);
+    expect(test.ratePerDecade).toBeCloseTo(0.195833333, 8);
+  });
+
+  it("needs at least ten years in the period", () => {
+    const values = Array.from({ length: 20 }, (_, i) => 27 + 0.01 * i);
+    expect(mannKendall(series(2000, values), "annual_mean", 2000, 2008)).toBe(
+      null
+    );
+  });
+});
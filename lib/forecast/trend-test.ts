@@ -0,0 +1,189 @@
+import { normalCdf, normalQuantile } from "./stats";
+import type { TemperatureData } from "./types";
+
+// Fewest years the trend test is run on
+export const MIN_TREND_YEARS = 10;
+
+// Significance level of the test and of the autocorrelations counted in the
+// variance correction
+export const TREND_ALPHA = 0.05;
+
+export type TrendVariable = "annual_mean" | "five_year_smooth";
+
+export const TREND_VARIABLES: { value: TrendVariable; label: string }[] = [
+  { value: "annual_mean", label: "Annual values" },
+  { value: "five_year_smooth", label: "5-year smooth" },
+];
+
+/**
+ * Mann-Kendall trend test and Sen's slope of one period of a series
+ */
+export type TrendTest = {
+  variable: TrendVariable;
+  startYear: number;
+  endYear: number;
+  // Years in the period with a value
+  n: number;
+  // Mann-Kendall statistic: concordant minus discordant pairs
+  s: number;
+  // Kendall's tau
+  tau: number;
+  // Variance of S, corrected for ties and autocorrelation
+  variance: number;
+  // Hamed-Rao factor n/n* the variance was multiplied by; 1 when no
+  // autocorrelation is significant
+  correction: number;
+  z: number;
+  // Two-sided p-value
+  pValue: number;
+  trend: "increasing" | "decreasing" | "none";
+  // Median of the pairwise slopes, per year
+  senSlope: number;
+  // Confidence interval of Sen's slope at 1 - TREND_ALPHA, per year
+  senInterval: { lower: number; upper: number };
+  // Sen's slope per decade, the warming rate reported in climate summaries
+  ratePerDecade: number;
+};
+
+function sign(value: number) {
+  return value > 0 ? 1 : value < 0 ? -1 : 0;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Ranks from 1, ties sharing their average rank
+ */
+function ranks(values: number[]) {
+  const order = values
+    .map((value, i) => ({ value, i }))
+    .sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (order[end + 1]?.value === order[start].value) end++;
+    for (let k = start; k <= end; k++) {
+      result[order[k].i] = (start + end) / 2 + 1;
+    }
+    start = end + 1;
+  }
+  return result;
+}
+
+/**
+ * Variance of S without serial correlation, reduced for tied values
+ */
+function tiedVariance(values: number[]) {
+  const n = values.length;
+  const counts = new Map<number, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  const ties = Array.from(counts.values()).reduce(
+    (sum, t) => sum + t * (t - 1) * (2 * t + 5),
+    0
+  );
+  return (n * (n - 1) * (2 * n + 5) - ties) / 18;
+}
+
+/**
+ * Hamed and Rao (1998) factor n/n* for the variance of S, from the
+ * significant autocorrelations of the ranks of the detrended values
+ */
+function autocorrelationCorrection(
+  years: number[],
+  values: number[],
+  slope: number
+) {
+  const n = values.length;
+  const r = ranks(values.map((value, i) => value - slope * years[i]));
+  const mean = r.reduce((sum, value) => sum + value, 0) / n;
+  const denominator = r.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+  if (denominator === 0) return 1;
+
+  const bound = normalQuantile(1 - TREND_ALPHA / 2) / Math.sqrt(n);
+  let total = 0;
+  for (let k = 1; k < n - 2; k++) {
+    let covariance = 0;
+    for (let i = 0; i < n - k; i++) {
+      covariance += (r[i] - mean) * (r[i + k] - mean);
+    }
+    const rho = covariance / denominator;
+    if (Math.abs(rho) > bound) {
+      total += (n - k) * (n - k - 1) * (n - k - 2) * rho;
+    }
+  }
+  // A strongly negative sum would make the variance negative
+  return Math.max(1 + (2 * total) / (n * (n - 1) * (n - 2)), 1 / n);
+}
+
+/**
+ * Runs the Mann-Kendall test with the Hamed-Rao autocorrelation correction
+ * on the years of a series from startYear to endYear, and estimates Sen's
+ * slope with its confidence interval (Gilbert 1987) from the corrected
+ * variance. Pairwise slopes use the calendar years, so gaps are allowed.
+ * Returns null when the period holds fewer than MIN_TREND_YEARS values.
+ */
+export function mannKendall(
+  series: TemperatureData[],
+  variable: TrendVariable,
+  startYear: number,
+  endYear: number
+): TrendTest | null {
+  const rows = series.filter((d) => {
+    const year = parseInt(d.year);
+    return year >= startYear && year <= endYear && isFinite(d[variable]);
+  });
+  const n = rows.length;
+  if (n < MIN_TREND_YEARS) return null;
+  const years = rows.map((d) => parseInt(d.year));
+  const values = rows.map((d) => d[variable]);
+
+  let s = 0;
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      s += sign(values[j] - values[i]);
+      slopes.push((values[j] - values[i]) / (years[j] - years[i]));
+    }
+  }
+  slopes.sort((a, b) => a - b);
+  const senSlope = median(slopes);
+
+  const correction = autocorrelationCorrection(years, values, senSlope);
+  const variance = tiedVariance(values) * correction;
+  const z = s === 0 ? 0 : (s - sign(s)) / Math.sqrt(variance);
+  const pValue = Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+
+  // Ranks of the interval bounds among the ordered slopes
+  const c = normalQuantile(1 - TREND_ALPHA / 2) * Math.sqrt(variance);
+  const count = slopes.length;
+  const lowerRank = Math.max(1, Math.round((count - c) / 2));
+  const upperRank = Math.min(count, Math.round((count + c) / 2) + 1);
+
+  return {
+    variable,
+    startYear: years[0],
+    endYear: years[n - 1],
+    n,
+    s,
+    tau: s / ((n * (n - 1)) / 2),
+    variance,
+    correction,
+    z,
+    pValue,
+    trend:
+      pValue < TREND_ALPHA ? (s > 0 ? "increasing" : "decreasing") : "none",
+    senSlope,
+    senInterval: {
+      lower: slopes[lowerRank - 1],
+      upper: slopes[upperRank - 1],
+    },
+    ratePerDecade: senSlope * 10,
+  };
+}
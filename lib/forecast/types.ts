@@ -0,0 +1,186 @@
+// Temperature data structure from Supabase database
+export type TemperatureData = {
+  year: string;
+  annual_mean: number;
+  five_year_smooth: number;
+  // Region code from REGIONS; absent or null for the national series
+  region?: string | null;
+  // Mean daily maximum and minimum temperatures (°C), where recorded
+  tmax?: number | null;
+  tmin?: number | null;
+  // Days with a maximum temperature above 35 °C
+  hot_days?: number | null;
+  // Days in warm spells: runs of six or more days with the maximum above
+  // its 90th percentile (the WSDI index)
+  warm_spell_days?: number | null;
+  // Set on values estimated for a missing or flagged year rather than
+  // recorded
+  imputed?: boolean;
+};
+
+// Monthly mean temperature record
+export type MonthlyTemperatureData = {
+  year: string;
+  // 1 for January through 12 for December
+  month: number;
+  mean: number;
+  region?: string | null;
+};
+
+export type ModelType =
+  | "polynomial"
+  | "moving-average"
+  | "linear"
+  | "exponential"
+  | "logarithmic"
+  | "power"
+  | "arima"
+  | "holt";
+
+/**
+ * Shape of the curve that pulls polynomial forecasts towards the last known
+ * value. The factor applied to the predicted change is
+ * max(minFactor, 1 - (yearsIntoFuture / horizon)^exponent), further reduced
+ * for large changes by max(0.3, 1 - change / changeScale).
+ */
+export type DampeningOptions = {
+  horizon: number;
+  minFactor: number;
+  exponent: number;
+  changeScale: number;
+};
+
+export type PolynomialOptions = {
+  order?: number;
+  // Number of most recent years to train on; null trains on the whole series
+  // and "change-point" on the years since its last change point
+  trainingWindow?: number | null | "change-point";
+  // false turns dampening off and reports the raw regression value
+  dampening?: DampeningOptions | false;
+};
+
+// Orders of an ARIMA(p, d, q) model
+export type ArimaOptions = {
+  p: number;
+  d: number;
+  q: number;
+};
+
+// Smoothing parameters for Holt's linear method; omitted ones are optimized
+export type HoltOptions = {
+  alpha?: number;
+  beta?: number;
+};
+
+/**
+ * Options passed to a model fit. Model-specific settings are keyed by model.
+ */
+export type ForecastOptions = {
+  /**
+   * Year treated as "now" when dampening long-range forecasts.
+   * Defaults to the current calendar year.
+   */
+  referenceYear?: number;
+  // Period anomalies are measured against; defaults to DEFAULT_BASELINE
+  baseline?: ClimateBaseline;
+  // Physical limits of the forecast quantity, such as 0–366 for a count of
+  // days. When given, predictions inside them are realistic rather than
+  // those near the historical range.
+  bounds?: { min: number; max: number };
+  polynomial?: PolynomialOptions;
+  arima?: ArimaOptions;
+  holt?: HoltOptions;
+};
+
+/**
+ * Goodness-of-fit statistics computed on the training data
+ */
+export type FitStats = {
+  r2: number;
+  adjustedR2: number;
+  // Number of points the model was trained on
+  n: number;
+};
+
+export type PredictionInterval = {
+  level: number;
+  lower: number;
+  upper: number;
+};
+
+/**
+ * A model that has been fitted to a temperature series
+ */
+export interface FittedModel {
+  type: ModelType;
+  // Year at which x = 0 in the equation (the first training year for
+  // regressions)
+  baseYear: number;
+  coefficients: number[];
+  equation: string;
+  description?: string;
+  stats: FitStats;
+  // First and last years of the data the model was fitted on
+  trainingYears: { first: number; last: number };
+  /**
+   * Predicts the temperature (°C) for a calendar year
+   */
+  predict(year: number): number;
+  /**
+   * Prediction before any post-processing such as dampening, for models
+   * that adjust their raw output
+   */
+  predictRaw?(year: number): number;
+  /**
+   * Prediction interval for a calendar year at a level such as 0.95.
+   * Only models with a residual variance estimate provide one.
+   */
+  interval?(year: number, level: number): PredictionInterval;
+}
+
+/**
+ * Common interface for every forecasting model
+ */
+export interface ForecastModel {
+  type: ModelType;
+  label: string;
+  // One-sentence description of the method, for reports
+  summary: string;
+  fit(series: TemperatureData[], options?: ForecastOptions): FittedModel;
+}
+
+// Lower and upper bounds of a prediction interval along a prediction line
+export type IntervalBand = {
+  level: number;
+  lower: number[];
+  upper: number[];
+};
+
+export type PredictionLine = {
+  years: string[];
+  temps: number[];
+  bands?: IntervalBand[];
+};
+
+/**
+ * Reference period that temperature anomalies are measured against
+ */
+export type ClimateBaseline = {
+  label: string;
+  startYear: number;
+  endYear: number;
+};
+
+/**
+ * One year of a multi-year projection
+ */
+export type ProjectionRow = {
+  year: number;
+  prediction: number;
+  // Prediction minus the baseline mean; null when the data does not cover
+  // the baseline period
+  anomaly: number | null;
+  // One per PREDICTION_LEVELS entry; empty when the model has no intervals
+  intervals: PredictionInterval[];
+  realistic: boolean;
+};
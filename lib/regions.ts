@@ -0,0 +1,45 @@
+export type IslandGroup = "Luzon" | "Visayas" | "Mindanao";
+
+/**
+ * Administrative region of the Philippines
+ */
+export type Region = {
+  // Value stored in the region column of the temperature table
+  code: string;
+  name: string;
+  islandGroup: IslandGroup;
+};
+
+export const ISLAND_GROUPS: IslandGroup[] = ["Luzon", "Visayas", "Mindanao"];
+
+export const REGIONS: Region[] = [
+  { code: "NCR", name: "National Capital Region", islandGroup: "Luzon" },
+  {
+    code: "CAR",
+    name: "Cordillera Administrative Region",
+    islandGroup: "Luzon",
+  },
+  { code: "I", name: "Ilocos Region", islandGroup: "Luzon" },
+  { code: "II", name: "Cagayan Valley", islandGroup: "Luzon" },
+  { code: "III", name: "Central Luzon", islandGroup: "Luzon" },
+  { code: "IV-A", name: "CALABARZON", islandGroup: "Luzon" },
+  { code: "MIMAROPA", name: "MIMAROPA", islandGroup: "Luzon" },
+  { code: "V", name: "Bicol Region", islandGroup: "Luzon" },
+  { code: "VI", name: "Western Visayas", islandGroup: "Visayas" },
+  { code: "VII", name: "Central Visayas", islandGroup: "Visayas" },
+  { code: "VIII", name: "Eastern Visayas", islandGroup: "Visayas" },
+  { code: "IX", name: "Zamboanga Peninsula", islandGroup: "Mindanao" },
+  { code: "X", name: "Northern Mindanao", islandGroup: "Mindanao" },
+  { code: "XI", name: "Davao Region", islandGroup: "Mindanao" },
+  { code: "XII", name: "SOCCSKSARGEN", islandGroup: "Mindanao" },
+  { code: "XIII", name: "Caraga", islandGroup: "Mindanao" },
+  { code: "BARMM", name: "Bangsamoro", islandGroup: "Mindanao" },
+];
+
+/**
+ * Display name of a region code, or the whole country for null
+ */
+export function regionName(code: string | null) {
+  if (code === null) return "Philippines";
+  return REGIONS.find((region) => region.code === code)?.name ?? code;
+}
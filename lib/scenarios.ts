@@ -0,0 +1,85 @@
+import type { TemperatureData } from "@/lib/forecast";
+import type { SimulationResult } from "@/lib/forecast/result";
+import type { SimulationConfig } from "@/lib/simulation-params";
+
+export const MAX_SCENARIO_NAME_LENGTH = 100;
+
+// Where the series came from when the scenario was saved
+export type DatasetSource = "database" | "sample" | "upload";
+
+export const DATASET_SOURCE_LABELS: Record<DatasetSource, string> = {
+  database: "Supabase temperature table",
+  sample: "Built-in sample data",
+  upload: "Uploaded file",
+};
+
+/**
+ * The exact series a saved scenario was run on, so its result can be
+ * reproduced after the table changes
+ */
+export type DatasetSnapshot = {
+  // Shown when the snapshot is loaded, e.g. "Central Visayas" or a file name
+  name: string;
+  source: DatasetSource;
+  // Identifies this version of the series; see datasetFingerprint
+  fingerprint: string;
+  firstYear: number;
+  lastYear: number;
+  series: TemperatureData[];
+};
+
+/**
+ * A row of the saved_scenarios table
+ */
+export type SavedScenario = {
+  id: string;
+  name: string;
+  config: SimulationConfig;
+  prediction: number;
+  // null for scenarios saved before results were stored
+  result: SimulationResult | null;
+  dataset: DatasetSnapshot;
+  created_at: string;
+  updated_at: string;
+};
+
+// Fields supplied when saving; the rest are filled in by the database
+export type ScenarioDraft = Pick<
+  SavedScenario,
+  "config" | "prediction" | "dataset"
+> & { result: SimulationResult };
+
+/**
+ * Short hash of the years and values of a series. Two series with the same
+ * fingerprint give the same forecasts.
+ */
+export function datasetFingerprint(series: TemperatureData[]) {
+  // 32-bit FNV-1a over the rows as text
+  let hash = 0x811c9dc5;
+  const text = series
+    .map((row) => `${row.year}:${row.annual_mean}:${row.five_year_smooth}`)
+    .join("|");
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Snapshot of the series a simulation is about to be saved with
+ */
+export function snapshotDataset(
+  series: TemperatureData[],
+  name: string,
+  source: DatasetSource
+): DatasetSnapshot {
+  return {
+    name,
+    source,
+    fingerprint: datasetFingerprint(series),
+    firstYear: parseInt(series[0].year),
+    lastYear: parseInt(series[series.length - 1].year),
+    series,
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { CLIMATE_BASELINES } from "@/lib/forecast";
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  parseSimulationParams,
+  simulationSearchParams,
+  type SimulationConfig,
+} from "@/lib/simulation-params";
+
+describe("parseSimulationParams", () => {
+  it.each([
+    ["model", "constructor"],
+    ["models", "linear,toString"],
+    ["models", "linear,linear"],
+  ])("reports %s=%s as invalid", (key, value) => {
+    const { config, errors } = parseSimulationParams(
+      new URLSearchParams({ [key]: value })
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(new RegExp(`^${key}:`));
+    expect(config.model).toBe(DEFAULT_SIMULATION_CONFIG.model);
+    expect(config.comparedModels).toBeNull();
+  });
+});
+
+describe("damping parameter", () => {
+  it.each(["0,0.8,0.2,10", "50,0.8,0.2,0", "50,0.8,1.5,10"])(
+    "rejects %s",
+    (value) => {
+      const { config, errors } = parseSimulationParams(
+        new URLSearchParams({ damping: value })
+      );
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatch(/^damping:/);
+      expect(config.polynomial.dampening).toEqual(
+        DEFAULT_SIMULATION_CONFIG.polynomial.dampening
+      );
+    }
+  );
+
+  it("accepts four valid settings", () => {
+    const { config, errors } = parseSimulationParams(
+      new URLSearchParams({ damping: "40,0.5,1,5" })
+    );
+    expect(errors).toEqual([]);
+    expect(config.polynomial.dampening).toEqual({
+      horizon: 40,
+      exponent: 0.5,
+      minFactor: 1,
+      changeScale: 5,
+    });
+  });
+});
+
+describe("simulationSearchParams", () => {
+  it.each(CLIMATE_BASELINES.map((baseline) => [baseline.label, baseline]))(
+    "restores the %s baseline of a stored config",
+    (_, baseline) => {
+      // Configs read back from the database are copies of the constants
+      const stored: SimulationConfig = JSON.parse(
+        JSON.stringify({ ...DEFAULT_SIMULATION_CONFIG, baseline })
+      );
+      const { config, errors } = parseSimulationParams(
+        simulationSearchParams(stored)
+      );
+      expect(errors).toEqual([]);
+      expect(config.baseline).toBe(baseline);
+    }
+  );
+});
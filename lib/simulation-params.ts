@@ -0,0 +1,372 @@
+import { INDICATORS, SEASONS, type IndicatorKey } from "@/lib/dataset";
+import {
+  CLIMATE_BASELINES,
+  DEFAULT_ARIMA,
+  DEFAULT_BASELINE,
+  DEFAULT_DAMPENING,
+  DEFAULT_POLYNOMIAL_ORDER,
+  DEFAULT_TRAINING_WINDOW,
+  forecastModels,
+  isModelType,
+  MAX_ARIMA_ORDER,
+  PROJECTION_STEPS,
+  type ArimaOptions,
+  type ClimateBaseline,
+  type DampeningOptions,
+  type HoltOptions,
+  type ModelType,
+  type PolynomialOptions,
+} from "@/lib/forecast";
+import { MAX_TARGET_YEAR, MIN_SIMULATION_YEAR } from "@/lib/forecast/request";
+import { REGIONS } from "@/lib/regions";
+
+export { MIN_SIMULATION_YEAR };
+
+/**
+ * Everything needed to reproduce a simulation, as shared through the page URL
+ */
+export type SimulationConfig = {
+  model: ModelType;
+  startYear: number;
+  targetYear: number;
+  step: number;
+  // Region codes; null is the national series and no comparison region
+  region: string | null;
+  compareRegion: string | null;
+  season: string | null;
+  indicator: IndicatorKey;
+  baseline: ClimateBaseline;
+  anomaly: boolean;
+  // Models run side by side; null when comparison mode is off
+  comparedModels: ModelType[] | null;
+  polynomial: Required<PolynomialOptions>;
+  arima: ArimaOptions;
+  holt: HoltOptions;
+};
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  model: "polynomial",
+  startYear: 2025,
+  targetYear: 2030,
+  step: PROJECTION_STEPS[0],
+  region: null,
+  compareRegion: null,
+  season: null,
+  indicator: "mean",
+  baseline: DEFAULT_BASELINE,
+  anomaly: false,
+  comparedModels: null,
+  polynomial: {
+    order: DEFAULT_POLYNOMIAL_ORDER,
+    trainingWindow: DEFAULT_TRAINING_WINDOW,
+    dampening: DEFAULT_DAMPENING,
+  },
+  arima: DEFAULT_ARIMA,
+  holt: {},
+};
+
+// Query parameters read and written for each setting
+const PARAMS = [
+  "model",
+  "from",
+  "to",
+  "step",
+  "region",
+  "vs",
+  "season",
+  "indicator",
+  "baseline",
+  "anomaly",
+  "models",
+  "order",
+  "window",
+  "damping",
+  "arima",
+  "alpha",
+  "beta",
+] as const;
+
+const DAMPENING_KEYS = [
+  "horizon",
+  "exponent",
+  "minFactor",
+  "changeScale",
+] as const;
+
+function baselineParam(baseline: ClimateBaseline) {
+  return `${baseline.startYear}-${baseline.endYear}`;
+}
+
+function isRegion(value: string) {
+  return REGIONS.some((region) => region.code === value);
+}
+
+/**
+ * Whole number written in plain digits, or NaN
+ */
+function parseWholeNumber(value: string) {
+  return /^\d+$/.test(value) ? parseInt(value) : NaN;
+}
+
+/**
+ * Restores a simulation from the page's query parameters. Settings that are
+ * missing keep their defaults; invalid ones are also left at the default and
+ * described in `errors`.
+ */
+export function parseSimulationParams(params: URLSearchParams): {
+  config: SimulationConfig;
+  // Whether any simulation parameter was given, so the run can be repeated
+  present: boolean;
+  errors: string[];
+} {
+  const config: SimulationConfig = {
+    ...DEFAULT_SIMULATION_CONFIG,
+    polynomial: { ...DEFAULT_SIMULATION_CONFIG.polynomial },
+    arima: { ...DEFAULT_SIMULATION_CONFIG.arima },
+    holt: {},
+  };
+  const errors: string[] = [];
+  const present = PARAMS.some((name) => params.has(name));
+
+  // Reads a parameter, recording a message when the check fails
+  function read<T>(
+    name: (typeof PARAMS)[number],
+    parse: (value: string) => T | undefined,
+    message: string
+  ): T | undefined {
+    const value = params.get(name);
+    if (value === null) return undefined;
+    const parsed = parse(value);
+    if (parsed === undefined) errors.push(`${name}: ${message}`);
+    return parsed;
+  }
+
+  const model = read(
+    "model",
+    (value) => (isModelType(value) ? value : undefined),
+    `must be one of ${Object.keys(forecastModels).join(", ")}`
+  );
+  if (model) config.model = model;
+
+  const yearMessage = `must be a year from ${MIN_SIMULATION_YEAR} to ${MAX_TARGET_YEAR}`;
+  const parseYear = (value: string) => {
+    const year = parseWholeNumber(value);
+    return year >= MIN_SIMULATION_YEAR && year <= MAX_TARGET_YEAR
+      ? year
+      : undefined;
+  };
+  const startYear = read("from", parseYear, yearMessage);
+  if (startYear !== undefined) config.startYear = startYear;
+  const targetYear = read("to", parseYear, yearMessage);
+  if (targetYear !== undefined) config.targetYear = targetYear;
+  if (config.startYear > config.targetYear) {
+    // Only a given first year is wrong; the default one just moves back
+    if (startYear !== undefined) {
+      errors.push("from: must not be after the last year");
+    }
+    config.startYear = Math.min(
+      DEFAULT_SIMULATION_CONFIG.startYear,
+      config.targetYear
+    );
+  }
+
+  const step = read(
+    "step",
+    (value) => {
+      const parsed = parseWholeNumber(value);
+      return PROJECTION_STEPS.includes(parsed) ? parsed : undefined;
+    },
+    `must be ${PROJECTION_STEPS.join(" or ")}`
+  );
+  if (step !== undefined) config.step = step;
+
+  const regionMessage = "must be a region code such as NCR, VII or BARMM";
+  const region = read(
+    "region",
+    (value) => (isRegion(value) ? value : undefined),
+    regionMessage
+  );
+  if (region) config.region = region;
+  const compareRegion = read(
+    "vs",
+    (value) => (isRegion(value) && value !== config.region ? value : undefined),
+    `${regionMessage}, other than the selected region`
+  );
+  if (compareRegion) config.compareRegion = compareRegion;
+
+  const season = read(
+    "season",
+    (value) => (SEASONS.some((s) => s.code === value) ? value : undefined),
+    `must be one of ${SEASONS.map((s) => s.code).join(", ")}`
+  );
+  if (season) config.season = season;
+
+  const indicator = read(
+    "indicator",
+    (value) => INDICATORS.find((i) => i.key === value)?.key,
+    `must be one of ${INDICATORS.map((i) => i.key).join(", ")}`
+  );
+  if (indicator) config.indicator = indicator;
+
+  const baseline = read(
+    "baseline",
+    (value) => CLIMATE_BASELINES.find((b) => baselineParam(b) === value),
+    `must be one of ${CLIMATE_BASELINES.map(baselineParam).join(", ")}`
+  );
+  if (baseline) config.baseline = baseline;
+
+  const anomaly = read(
+    "anomaly",
+    (value) => (value === "1" ? true : value === "0" ? false : undefined),
+    "must be 0 or 1"
+  );
+  if (anomaly !== undefined) config.anomaly = anomaly;
+
+  const comparedModels = read(
+    "models",
+    (value) => {
+      const types = value.split(",");
+      return types.every(isModelType) && new Set(types).size === types.length
+        ? types
+        : undefined;
+    },
+    "must be a comma-separated list of different models"
+  );
+  if (comparedModels) config.comparedModels = comparedModels;
+
+  const order = read(
+    "order",
+    (value) => {
+      const parsed = parseWholeNumber(value);
+      return parsed >= 1 && parsed <= 4 ? parsed : undefined;
+    },
+    "must be a whole number from 1 to 4"
+  );
+  if (order !== undefined) config.polynomial.order = order;
+
+  const trainingWindow = read<number | null | "change-point">(
+    "window",
+    (value) => {
+      if (value === "all") return null;
+      if (value === "change-point") return value;
+      const parsed = parseWholeNumber(value);
+      return parsed >= 3 ? parsed : undefined;
+    },
+    'must be "all", "change-point" or a number of years (at least 3)'
+  );
+  if (trainingWindow !== undefined) {
+    config.polynomial.trainingWindow = trainingWindow;
+  }
+
+  const dampening = read<DampeningOptions | false>(
+    "damping",
+    (value) => {
+      if (value === "off") return false;
+      const numbers = value.split(",").map(Number);
+      if (
+        numbers.length !== DAMPENING_KEYS.length ||
+        numbers.some((n) => !isFinite(n) || n < 0)
+      ) {
+        return undefined;
+      }
+      const options = Object.fromEntries(
+        DAMPENING_KEYS.map((key, i) => [key, numbers[i]])
+      ) as DampeningOptions;
+      // A zero horizon or change scale would divide by zero
+      return options.horizon > 0 &&
+        options.changeScale > 0 &&
+        options.minFactor <= 1
+        ? options
+        : undefined;
+    },
+    `must be "off" or four non-negative numbers (${DAMPENING_KEYS.join(", ")}), with a positive horizon and changeScale and a minFactor of at most 1`
+  );
+  if (dampening !== undefined) config.polynomial.dampening = dampening;
+
+  const arima = read(
+    "arima",
+    (value) => {
+      const [p, d, q] = value.split(",").map(parseWholeNumber);
+      const orders = { p, d, q };
+      return value.split(",").length === 3 &&
+        (["p", "d", "q"] as const).every(
+          (key) => orders[key] >= 0 && orders[key] <= MAX_ARIMA_ORDER[key]
+        )
+        ? orders
+        : undefined;
+    },
+    `must be p,d,q with orders up to ${MAX_ARIMA_ORDER.p},${MAX_ARIMA_ORDER.d},${MAX_ARIMA_ORDER.q}`
+  );
+  if (arima) config.arima = arima;
+
+  for (const key of ["alpha", "beta"] as const) {
+    const value = read(
+      key,
+      (raw) => {
+        const parsed = Number(raw);
+        return raw !== "" && parsed > 0 && parsed < 1 ? parsed : undefined;
+      },
+      "must be between 0 and 1"
+    );
+    if (value !== undefined) config.holt[key] = value;
+  }
+
+  return { config, present, errors };
+}
+
+/**
+ * Query parameters describing a simulation, leaving out settings at their
+ * defaults so shared links stay short
+ */
+export function simulationSearchParams(
+  config: SimulationConfig
+): URLSearchParams {
+  const defaults = DEFAULT_SIMULATION_CONFIG;
+  const params = new URLSearchParams();
+  const set = (name: (typeof PARAMS)[number], value: string | number) =>
+    params.set(name, String(value));
+
+  if (config.model !== defaults.model) set("model", config.model);
+  if (config.comparedModels) set("models", config.comparedModels.join(","));
+  // Years still being typed are left out until they are whole numbers
+  for (const [name, year, fallback] of [
+    ["from", config.startYear, defaults.startYear],
+    ["to", config.targetYear, defaults.targetYear],
+  ] as const) {
+    if (Number.isInteger(year) && year !== fallback) set(name, year);
+  }
+  if (config.step !== defaults.step) set("step", config.step);
+  if (config.region) set("region", config.region);
+  if (config.compareRegion) set("vs", config.compareRegion);
+  if (config.season) set("season", config.season);
+  if (config.indicator !== defaults.indicator) {
+    set("indicator", config.indicator);
+  }
+  // Compared by years, as configs read back from storage hold copies
+  if (baselineParam(config.baseline) !== baselineParam(defaults.baseline)) {
+    set("baseline", baselineParam(config.baseline));
+  }
+  if (config.anomaly) set("anomaly", 1);
+
+  const { order, trainingWindow, dampening } = config.polynomial;
+  if (order !== defaults.polynomial.order) set("order", order);
+  if (trainingWindow !== defaults.polynomial.trainingWindow) {
+    set("window", trainingWindow ?? "all");
+  }
+  if (dampening === false) {
+    set("damping", "off");
+  } else if (
+    DAMPENING_KEYS.some((key) => dampening[key] !== DEFAULT_DAMPENING[key])
+  ) {
+    set("damping", DAMPENING_KEYS.map((key) => dampening[key]).join(","));
+  }
+
+  const { p, d, q } = config.arima;
+  if (p !== DEFAULT_ARIMA.p || d !== DEFAULT_ARIMA.d || q !== DEFAULT_ARIMA.q) {
+    set("arima", [p, d, q].join(","));
+  }
+  if (config.holt.alpha !== undefined) set("alpha", config.holt.alpha);
+  if (config.holt.beta !== undefined) set("beta", config.holt.beta);
+
+  return params;
+}
@@ -0,0 +1,51 @@
+-- Named simulations saved by signed-in users. Each row holds the settings,
+-- the result and a snapshot of the series the models ran on.
+create table if not exists public.saved_scenarios (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  -- SimulationConfig from lib/simulation-params.ts
+  config jsonb not null,
+  prediction double precision not null,
+  details jsonb not null default '[]'::jsonb,
+  -- DatasetSnapshot from lib/scenarios.ts
+  dataset jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_scenarios_user_id_created_at_idx
+  on public.saved_scenarios (user_id, created_at desc);
+
+alter table public.saved_scenarios enable row level security;
+
+create policy "Users can read their own scenarios"
+  on public.saved_scenarios for select
+  using (auth.uid() = user_id);
+
+create policy "Users can save their own scenarios"
+  on public.saved_scenarios for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own scenarios"
+  on public.saved_scenarios for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own scenarios"
+  on public.saved_scenarios for delete
+  using (auth.uid() = user_id);
+
+create or replace function public.touch_saved_scenario()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger saved_scenarios_touch
+  before update on public.saved_scenarios
+  for each row execute function public.touch_saved_scenario();
@@ -0,0 +1,4 @@
+-- SimulationResult from lib/forecast/result.ts. New scenarios store it instead
+-- of formatted detail lines; details is kept for rows saved before.
+alter table public.saved_scenarios
+  add column if not exists result jsonb;
@@ -0,0 +1,10 @@
+declare module "svgcanvas" {
+  /**
+   * Mock 2D canvas context that records drawing calls as SVG elements
+   */
+  export class Context {
+    constructor(width: number, height: number);
+    getSerializedSvg(fixNamedEntities?: boolean): string;
+    getSvg(): SVGSVGElement;
+  }
+}
@@ -0,0 +1,92 @@
+import type { TemperatureData } from "@/lib/forecast";
+
+const DB_NAME = "temperature-trends";
+const STORE = "series";
+// Bumped when the cached TemperatureData shape changes; older entries are
+// ignored
+const CACHE_VERSION = 1;
+
+/**
+ * The last series fetched from Supabase for a region
+ */
+export type CachedSeries = {
+  series: TemperatureData[];
+  // When it was fetched, in milliseconds since the epoch
+  savedAt: number;
+};
+
+type CacheEntry = CachedSeries & { key: string; version: number };
+
+function cacheKey(region: string | null) {
+  return region ?? "national";
+}
+
+function openCache(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Reads the cached series of a region, or the national series for null.
+ * Resolves to null when nothing usable is cached or IndexedDB is unavailable,
+ * e.g. in some private browsing modes.
+ */
+export async function readCachedSeries(
+  region: string | null
+): Promise<CachedSeries | null> {
+  if (typeof indexedDB === "undefined") return null;
+  try {
+    const db = await openCache();
+    const entry = await new Promise<CacheEntry | undefined>(
+      (resolve, reject) => {
+        const request = db
+          .transaction(STORE, "readonly")
+          .objectStore(STORE)
+          .get(cacheKey(region));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }
+    );
+    db.close();
+    if (!entry || entry.version !== CACHE_VERSION) return null;
+    return { series: entry.series, savedAt: entry.savedAt };
+  } catch (error) {
+    console.error("Error reading cached series:", error);
+    return null;
+  }
+}
+
+/**
+ * Caches a series fetched from Supabase, replacing the region's previous
+ * one. Failures are logged and otherwise ignored.
+ */
+export async function writeCachedSeries(
+  region: string | null,
+  series: TemperatureData[]
+) {
+  if (typeof indexedDB === "undefined") return;
+  try {
+    const db = await openCache();
+    const entry: CacheEntry = {
+      key: cacheKey(region),
+      version: CACHE_VERSION,
+      savedAt: Date.now(),
+      series,
+    };
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE, "readwrite");
+      transaction.objectStore(STORE).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    db.close();
+  } catch (error) {
+    console.error("Error caching series:", error);
+  }
+}
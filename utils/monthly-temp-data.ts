@@ -0,0 +1,31 @@
+import type { MonthlyTemperatureData, TemperatureData } from "@/lib/forecast";
+
+// Typical departure of each month from the annual mean in the Philippines
+// (°C), January first: coolest in January, hottest in April and May
+const monthlyCycle = [
+  -1.3, -1.0, -0.1, 1.1, 1.5, 0.8, 0.2, 0.1, 0.1, 0.2, -0.5, -1.1,
+];
+
+/**
+ * Sample monthly data spread from an annual series with a typical seasonal
+ * cycle, for fallback when Supabase has no monthly records. Each year's
+ * months average to its annual mean.
+ */
+export function sampleMonthlyTemperatureData(
+  annual: TemperatureData[]
+): MonthlyTemperatureData[] {
+  return annual.flatMap((row, i) => {
+    const noise = monthlyCycle.map(
+      (_, m) => 0.25 * Math.sin(i * 2.3 + m * 1.1)
+    );
+    const noiseMean = noise.reduce((sum, value) => sum + value, 0) / 12;
+    return monthlyCycle.map((offset, m) => ({
+      year: row.year,
+      month: m + 1,
+      mean:
+        Math.round((row.annual_mean + offset + noise[m] - noiseMean) * 100) /
+        100,
+      region: row.region,
+    }));
+  });
+}
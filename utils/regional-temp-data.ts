@@ -0,0 +1,69 @@
+import type { TemperatureData } from "@/lib/forecast";
+import { mockTemperatureData } from "./temp-data";
+
+// How each region differs from the national sample series: a constant
+// offset (°C) and a multiplier on the national warming since 1990
+const regionalProfiles: Record<string, { offset: number; warming: number }> = {
+  NCR: { offset: 0.6, warming: 1.3 },
+  CAR: { offset: -5.4, warming: 0.8 },
+  I: { offset: 0.1, warming: 0.9 },
+  II: { offset: 0.3, warming: 1.0 },
+  III: { offset: 0.4, warming: 1.1 },
+  "IV-A": { offset: 0.1, warming: 1.1 },
+  MIMAROPA: { offset: -0.1, warming: 0.9 },
+  V: { offset: -0.2, warming: 0.9 },
+  VI: { offset: -0.1, warming: 1.0 },
+  VII: { offset: 0.0, warming: 1.1 },
+  VIII: { offset: -0.3, warming: 0.9 },
+  IX: { offset: -0.2, warming: 0.9 },
+  X: { offset: -0.8, warming: 0.9 },
+  XI: { offset: -0.3, warming: 1.0 },
+  XII: { offset: -0.6, warming: 1.0 },
+  XIII: { offset: -0.4, warming: 0.8 },
+  BARMM: { offset: -0.5, warming: 1.0 },
+};
+
+/**
+ * Sample temperature data for a region, derived from the national sample
+ * for fallback when Supabase is unavailable
+ */
+export function regionalMockTemperatureData(region: string): TemperatureData[] {
+  const { offset, warming } = regionalProfiles[region] ?? {
+    offset: 0,
+    warming: 1,
+  };
+  const start = mockTemperatureData[0];
+  // Fixed per-region phase so each region's year-to-year noise differs
+  const phase = region.length + region.charCodeAt(0);
+
+  return mockTemperatureData.map((row, i) => {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const noise = 0.15 * Math.sin(i * 1.7 + phase);
+    return {
+      year: row.year,
+      annual_mean: round(
+        start.annual_mean +
+          offset +
+          warming * (row.annual_mean - start.annual_mean) +
+          noise
+      ),
+      five_year_smooth: round(
+        start.five_year_smooth +
+          offset +
+          warming * (row.five_year_smooth - start.five_year_smooth)
+      ),
+      region,
+    };
+  });
+}
+
+/**
+ * Sample data for a region, or the national sample for null
+ */
+export function sampleTemperatureData(
+  region: string | null
+): TemperatureData[] {
+  return region === null
+    ? mockTemperatureData
+    : regionalMockTemperatureData(region);
+}
@@ -0,0 +1,51 @@
+import type { SavedScenario, ScenarioDraft } from "@/lib/scenarios";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Row-level security limits every query to the signed-in user's rows
+const TABLE = "saved_scenarios";
+
+/**
+ * Reads the signed-in user's scenarios, newest first
+ */
+export async function listScenarios(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("*")
+    .order("created_at", { ascending: false });
+  return { data: data as SavedScenario[] | null, error };
+}
+
+/**
+ * Saves a scenario for the signed-in user; user_id defaults to auth.uid()
+ */
+export async function saveScenario(
+  supabase: SupabaseClient,
+  name: string,
+  draft: ScenarioDraft
+) {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({ name, ...draft })
+    .select()
+    .single();
+  return { data: data as SavedScenario | null, error };
+}
+
+export async function renameScenario(
+  supabase: SupabaseClient,
+  id: string,
+  name: string
+) {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ name })
+    .eq("id", id)
+    .select()
+    .single();
+  return { data: data as SavedScenario | null, error };
+}
+
+export async function deleteScenario(supabase: SupabaseClient, id: string) {
+  const { error } = await supabase.from(TABLE).delete().eq("id", id);
+  return { error };
+}
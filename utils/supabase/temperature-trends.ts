@@ -0,0 +1,62 @@
+import { validateTemperatureRows } from "@/lib/dataset/validate";
+import type { MonthlyTemperatureData } from "@/lib/forecast";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Reads a table of temperature records for a region, or the national records
+ * for null, ordered by year (and month, where the table has one)
+ */
+async function fetchByRegion<T extends { region?: string | null }>(
+  supabase: SupabaseClient,
+  table: string,
+  region: string | null,
+  monthly: boolean
+) {
+  let query = supabase
+    .from(table)
+    .select("*")
+    .order("year", { ascending: true });
+  if (monthly) query = query.order("month", { ascending: true });
+
+  const { data, error } = await (region === null
+    ? query.is("region", null)
+    : query.eq("region", region));
+
+  return { data: data as T[] | null, error };
+}
+
+/**
+ * Reads the annual temperature series for a region, or the national series
+ * for null, validated against the TemperatureData schema. quality reports
+ * what the validation found. Works with both the browser and server clients.
+ */
+export async function fetchTemperatureTrends(
+  supabase: SupabaseClient,
+  region: string | null
+) {
+  const { data, error } = await fetchByRegion<{ region?: string | null }>(
+    supabase,
+    "philippines_temperature_trends",
+    region,
+    false
+  );
+  if (!data) return { data: null, quality: null, error };
+  const { series, report } = validateTemperatureRows(data);
+  return { data: series, quality: report, error };
+}
+
+/**
+ * Reads monthly mean temperatures for a region, or the national records for
+ * null
+ */
+export function fetchMonthlyTemperatures(
+  supabase: SupabaseClient,
+  region: string | null
+) {
+  return fetchByRegion<MonthlyTemperatureData>(
+    supabase,
+    "philippines_monthly_temperatures",
+    region,
+    true
+  );
+}